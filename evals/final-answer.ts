@@ -1,7 +1,7 @@
 import { Client, Dataset } from "langsmith";
 import { graph as multiAgent } from '../multi-agent/memory-assistant';
 import { evaluate } from "langsmith/evaluation";
-import { llm } from '../multi-agent/utils';
+import { createChatModel } from '../shared/models';
 import { Command } from '@langchain/langgraph';
 import { HumanMessage } from '@langchain/core/messages';
 import { z } from 'zod';
@@ -141,8 +141,9 @@ const GradeSchema = z.object({
 });
 
 
-// Judge LLM
-const graderLLM = llm.withStructuredOutput(GradeSchema);
+// Judge LLM, configured independently of the agent with `EVAL_GRADER_MODEL_NAME` etc. (see shared/models.ts)
+const graderLLM = createChatModel({ configPrefix: 'eval_grader', fallbackPrefixes: ['grader'] })
+  .withStructuredOutput(GradeSchema);
 
 // Evaluator function
 async function finalAnswerCorrect(
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BaseMessage, HumanMessage, ToolMessage } from '@langchain/core/messages';
+import { ScriptedChatModel, useChinookFixture } from '../shared/testing';
+import { registerFakeChatModel } from '../shared/models';
+import { graph } from './assistant-agent';
+
+/*
+Runs the supervisor offline: every agent uses the shared `llm`, which the 'fake' provider points at
+a `ScriptedChatModel` (see ```shared/testing.ts```), and the tools query a small Chinook database on disk.
+*/
+
+useChinookFixture();
+
+// Which agent is calling: the system prompt of each agent, and which tool just answered
+const systemPrompt = (messages: BaseMessage[]) => String(messages[0]?.content ?? '');
+const lastToolName = (messages: BaseMessage[]) => {
+  const last = messages[messages.length - 1];
+  return last instanceof ToolMessage ? last.name : undefined;
+};
+
+test('the supervisor routes an invoice question to the invoice subagent, which answers for the verified customer', async () => {
+  const llm = new ScriptedChatModel({ responses: [
+    {
+      match: messages => systemPrompt(messages).includes('supervisor/planner'),
+      toolCalls: [{ name: 'transfer_to_invoice_information_subagent', args: {} }],
+      once: true,
+    },
+    {
+      match: messages => systemPrompt(messages).includes('processing invoice information')
+        && lastToolName(messages) === 'get_invoices_by_customer_sorted_by_date',
+      content: 'Your most recent purchase, invoice 121, was $3.96.',
+    },
+    {
+      match: messages => systemPrompt(messages).includes('processing invoice information'),
+      // The customer ID isn't passed: the tool reads the verified customer from the state
+      toolCalls: [{ name: 'get_invoices_by_customer_sorted_by_date', args: {} }],
+    },
+    {
+      match: messages => systemPrompt(messages).includes('supervisor/planner'),
+      content: 'Your most recent purchase was $3.96.',
+    },
+  ]});
+  registerFakeChatModel('assistant', llm);
+
+  const result = await graph.invoke(
+    { messages: [new HumanMessage('How much was my most recent purchase?')], customer_id: '1', second_factor_verified: true },
+    { configurable: { model_provider: 'fake', model: 'assistant' } },
+  );
+
+  assert.equal(result.messages.at(-1)!.content, 'Your most recent purchase was $3.96.');
+  // The invoice subagent got customer 1's invoices, newest first, and none of customer 2's
+  const toolResult = llm.calls.find(call => lastToolName(call.messages) === 'get_invoices_by_customer_sorted_by_date');
+  assert.ok(toolResult);
+  const invoices = JSON.parse(String(toolResult.messages.at(-1)!.content));
+  assert.deepEqual(invoices.map((invoice: any) => invoice.InvoiceId), [121, 98]);
+});
@@ -31,7 +31,7 @@ Your primary role is to serve as a supervisor/planner for this multi-agent team
 
 Your team is composed of two subagents that you can use to help answer the customer's request:
 1. music_catalog_information_subagent: this subagent has access to user's saved music preferences. It can also retrieve information about the digital music store's music 
-catalog (albums, tracks, songs, etc.) from the database. 
+catalog (albums, tracks, songs, playlists, etc.) from the database. 
 3. invoice_information_subagent: this subagent is able to retrieve information about a customer's past purchases or invoices 
 from the database. 
 
@@ -83,6 +83,11 @@ export const SupervisorState = Annotation.Root({
     reducer: (currentState, updateValue) => updateValue,
     default: () => null,
   }),
+  // Whether the customer confirmed their identity with a second factor (see verify_info in hil-assistant.ts)
+  second_factor_verified: Annotation<boolean>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => false,
+  }),
   loaded_memory: Annotation<string | null>({
     reducer: (currentState, updateValue) => updateValue,
     default: () => null,
@@ -109,8 +114,10 @@ export type GraphState = typeof SupervisorState.State;
 
 // Example usage
 async function main() {
-  const question = "My customer ID is 1. How much was my most recent purchase? What albums do you have by U2";
-  const stream = await graph.stream({ messages: [new HumanMessage(question)] });
+  const question = "How much was my most recent purchase? What albums do you have by U2";
+  // Invoice tools only act for a verified customer (see authorizeCustomer in utils.ts), which hil-assistant.ts verifies.
+  // This graph has no verification step, so we pass the customer in the state.
+  const stream = await graph.stream({ messages: [new HumanMessage(question)], customer_id: "1", second_factor_verified: true });
   for await (const chunk of stream) {
     const nodeName = Object.keys(chunk)[0];
     const nodeData = chunk[nodeName as keyof typeof chunk];
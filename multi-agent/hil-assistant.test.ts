@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BaseMessage, HumanMessage } from '@langchain/core/messages';
+import { ScriptedChatModel, useChinookFixture } from '../shared/testing';
+import { registerFakeChatModel } from '../shared/models';
+import { graph, MAX_VERIFICATION_ATTEMPTS } from './hil-assistant';
+
+/*
+Runs the customer verification offline, against a small Chinook database on disk
+(see `useChinookFixture` in ```shared/testing.ts```).
+*/
+
+useChinookFixture();
+
+const lastMessage = (messages: BaseMessage[]) => String(messages[messages.length - 1]?.content ?? '');
+
+test('failed second factors are counted per customer, so a new thread is still locked', async () => {
+  registerFakeChatModel('verifier', new ScriptedChatModel({ responses: [
+    {
+      match: 'extracting customer identifier',
+      // The last name the customer gave, ex. "I'm customer 1, Smith. Show my invoices."
+      structured: messages => ({
+        identifier: '1',
+        last_name: lastMessage(messages).split(', ')[1].split('.')[0],
+        postal_code: '',
+        needs_account_data: true,
+      }),
+    },
+    { match: 'verify the customer identity', content: 'That doesn\'t match our records, please check your last name.' },
+  ]}));
+  const run = (thread_id: string, lastName: string) => graph.invoke(
+    { messages: [new HumanMessage(`I'm customer 1, ${lastName}. Show my invoices.`)] },
+    { configurable: { thread_id, model_provider: 'fake', model: 'verifier' } },
+  );
+
+  // One wrong last name per thread
+  for (let attempt = 1; attempt <= MAX_VERIFICATION_ATTEMPTS; attempt++) {
+    await run(`guess-${attempt}`, 'Smith');
+  }
+
+  // The right last name, in a new thread, doesn't get a fresh set of attempts
+  const result = await run('fresh', 'Gonçalves');
+  assert.equal(result.second_factor_verified, false);
+  assert.equal(result.verification_attempts, MAX_VERIFICATION_ATTEMPTS);
+  assert.match(lastMessage(result.messages), /locked/);
+});
@@ -1,6 +1,6 @@
-import { supervisorPrebuiltWorkflow, GraphState, SupervisorState } from './assistant-agent';
+import { supervisorPrebuiltWorkflow, SupervisorState } from './assistant-agent';
 import { llm, getEngineForChinookDb, queryChinookDb } from './utils';
-import { StateGraph, Annotation, Command } from '@langchain/langgraph';
+import { StateGraph, Annotation, Command, InMemoryStore } from '@langchain/langgraph';
 import { interrupt } from "@langchain/langgraph";
 import { MemorySaver } from '@langchain/langgraph';
 import { HumanMessage, SystemMessage, AIMessage, BaseMessage } from '@langchain/core/messages';
@@ -18,7 +18,7 @@ In this step, we will be showing a simple implementation of such a node,
 using **human-in-the-loop** to prompt the customer to provide their account information. 
 */
 
-// Initialize database connection
+// The database connection, shared by every subagent (see getEngineForChinookDb)
 let db: any;
 
 async function initializeDb() {
@@ -41,96 +41,249 @@ ChatModels support attaching a structured data schema to adhere response to.
 This is useful in scenarios like extracting information or categorizing. 
 */
 
+/*
+Verification takes up to two steps:
+1. The customer gives an identifier (customer ID, email or phone number), which must match an existing customer.
+   Emails are compared case-insensitively, and phone numbers by their digits only, so "+55 (12) 3923-5555",
+   "0055 12 3923 5555" and "12 39235555" all match the same customer.
+2. Requests for the customer's own account data (invoices, purchases, their support representative) go to a
+   sensitive subagent, so the customer must also confirm their last name or postal code, as stored in `Customer`.
+   The invoice tools check this too (see `authorizeCustomer` in ```multi-agent/utils.ts```).
+
+Every identifier or second factor that doesn't match is a failed attempt. After `MAX_VERIFICATION_ATTEMPTS` failed
+attempts the thread is locked: the graph answers with a lockout message and ends, instead of asking again.
+
+Starting a new thread would give a fresh set of attempts, so the failed second factors of each customer are also
+counted in `verificationStore`, which every thread shares. Once a customer has `MAX_VERIFICATION_ATTEMPTS` of them,
+any thread that identifies that customer is locked too, until a support agent clears the customer's entry.
+A correct second factor clears it as well. Identifiers that match no customer only count in their thread:
+there is no account to protect, and guessing identifiers doesn't get anyone closer to one.
+*/
+export const MAX_VERIFICATION_ATTEMPTS = 3;
+
+// The failed second factors of each customer, across threads
+export const verificationStore = new InMemoryStore(); // or a database-backed store
+const FAILED_ATTEMPTS_NAMESPACE = ["verification", "failed_attempts"];
+
+async function getFailedAttempts(customerId: string): Promise<number> {
+  const item = await verificationStore.get(FAILED_ATTEMPTS_NAMESPACE, customerId);
+  return item?.value.attempts ?? 0;
+}
+
+async function recordFailedAttempt(customerId: string): Promise<number> {
+  const attempts = (await getFailedAttempts(customerId)) + 1;
+  await verificationStore.put(FAILED_ATTEMPTS_NAMESPACE, customerId, { attempts, last_failed_at: new Date().toISOString() });
+  return attempts;
+}
+
+// The supervisor state, and the progress of the verification
+export const VerificationState = Annotation.Root({
+  ...SupervisorState.spec,
+  second_factor_required: Annotation<boolean>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => false,
+  }),
+  verification_attempts: Annotation<number>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => 0,
+  }),
+});
+export type GraphState = typeof VerificationState.State;
+
+const LOCKOUT_MESSAGE = `We couldn't verify your account after ${MAX_VERIFICATION_ATTEMPTS} attempts, so we've locked this conversation to protect it. Please contact our support team to verify your identity.`;
+
 // Schema for parsing user-provided account information
 const UserInputSchema = z.object({
-  identifier: z.string().describe("Identifier, which can be a customer ID, email, or phone number.")
+  identifier: z.string().describe("Identifier, which can be a customer ID, email, or phone number."),
+  last_name: z.string().describe("The customer's last name, if they provided it, otherwise an empty string."),
+  postal_code: z.string().describe("The customer's postal code, if they provided it, otherwise an empty string."),
+  needs_account_data: z.boolean().describe("Whether the customer asks about their own account data, such as their invoices, purchases or support representative, rather than only about the music catalog."),
 });
 
-// Helper function to get customer ID from identifier
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// The digits of a phone number, with an international "00" prefix read as "+"
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return phone.trim().startsWith('00') ? digits.slice(2) : digits;
+}
+
+// Phone numbers are stored formatted, ex. "+55 (12) 3923-5555", so compare their digits in SQL
+const PHONE_DIGITS_SQL = `REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(Phone, ' ', ''), '-', ''), '(', ''), ')', ''), '+', ''), '.', '')`;
+
+// A national number, without its country code, must still have this many digits to be matched
+const MIN_NATIONAL_PHONE_DIGITS = 7;
+
+async function getCustomerIdFromPhone(phone: string): Promise<string | null> {
+  const dbInstance = await initializeDb();
+  const digits = normalizePhone(phone);
+  const international = phone.trim().startsWith('+') || phone.trim().startsWith('00');
+  // Without a country code, match the end of the number (dropping a trunk prefix "0", ex. "012 3923 5555")
+  const national = digits.replace(/^0+/, '');
+  if (!digits || (!international && national.length < MIN_NATIONAL_PHONE_DIGITS)) {
+    return null;
+  }
+
+  const query = international
+    ? `SELECT CustomerId FROM Customer WHERE ${PHONE_DIGITS_SQL} = ?;`
+    : `SELECT CustomerId FROM Customer WHERE ${PHONE_DIGITS_SQL} LIKE ?;`;
+  const { rows } = await queryChinookDb(dbInstance, query, [international ? digits : `%${national}`]);
+  // A number matching several customers doesn't identify anyone
+  return rows.length === 1 ? rows[0].CustomerId.toString() : null;
+}
+
+// Helper function to get the ID of an existing customer from an identifier
 export async function getCustomerIdFromIdentifier(identifier: string): Promise<string | null> {
   const dbInstance = await initializeDb();
-  
-  if (/^\d+$/.test(identifier)) {
-    return identifier;
-  } else if (identifier.startsWith('+')) {
-    const query = `SELECT CustomerId FROM Customer WHERE Phone = '${identifier}';`;
-    const result = await queryChinookDb(dbInstance, query);
-    if (result && result.length > 0) {
-      return result[0].CustomerId.toString();
-    }
-  } else if (identifier.includes('@')) {
-    const query = `SELECT CustomerId FROM Customer WHERE Email = '${identifier}';`;
-    const result = await queryChinookDb(dbInstance, query);
-    if (result && result.length > 0) {
-      return result[0].CustomerId.toString();
+  const trimmed = identifier.trim();
+
+  if (trimmed.includes('@')) {
+    const query = `SELECT CustomerId FROM Customer WHERE LOWER(TRIM(Email)) = ?;`;
+    const { rows } = await queryChinookDb(dbInstance, query, [normalizeEmail(trimmed)]);
+    return rows.length > 0 ? rows[0].CustomerId.toString() : null;
+  }
+  if (/^\d+$/.test(trimmed)) {
+    const query = `SELECT CustomerId FROM Customer WHERE CustomerId = ?;`;
+    const { rows } = await queryChinookDb(dbInstance, query, [Number(trimmed)]);
+    if (rows.length > 0) {
+      return rows[0].CustomerId.toString();
     }
   }
-  return null;
+  // Anything else, or digits that aren't a customer ID, may be a phone number
+  return /\d/.test(trimmed) ? getCustomerIdFromPhone(trimmed) : null;
+}
+
+function normalizePostalCode(postalCode: string): string {
+  return postalCode.replace(/[\s-]/g, '').toUpperCase();
+}
+
+// Check the second factor, the last name or the postal code, against the customer's record
+export async function verifySecondFactor(
+  customerId: string,
+  factors: { last_name?: string; postal_code?: string },
+): Promise<boolean> {
+  const dbInstance = await initializeDb();
+  const query = `SELECT LastName, PostalCode FROM Customer WHERE CustomerId = ?;`;
+  const { rows } = await queryChinookDb(dbInstance, query, [Number(customerId)]);
+  if (!rows.length) {
+    return false;
+  }
+  const { LastName, PostalCode } = rows[0];
+  const lastName = factors.last_name?.trim().toLowerCase();
+  const postalCode = factors.postal_code ? normalizePostalCode(factors.postal_code) : '';
+  return Boolean(
+    (lastName && LastName && lastName === String(LastName).trim().toLowerCase())
+    || (postalCode && PostalCode && postalCode === normalizePostalCode(String(PostalCode)))
+  );
+}
+
+function isVerified(state: GraphState): boolean {
+  return state.customer_id !== null && (!state.second_factor_required || state.second_factor_verified);
+}
+
+function isLocked(state: GraphState): boolean {
+  return state.verification_attempts >= MAX_VERIFICATION_ATTEMPTS;
 }
 
 // Node: Verify customer information
 export async function verifyInfo(state: GraphState): Promise<Partial<GraphState>> {
-  if (state.customer_id === null) {
-    const systemInstructions = `You are a music store agent, where you are trying to verify the customer identity 
-    as the first step of the customer support process. 
-    Only after their account is verified, you would be able to support them on resolving the issue. 
-    In order to verify their identity, one of their customer ID, email, or phone number needs to be provided.
-    If the customer has not provided their identifier, please ask them for it.
-    If they have provided the identifier but cannot be found, please ask them to revise it.`;
-
-    const userInput = state.messages[state.messages.length - 1];
-    
-    // Parse for customer ID using structured output
-    const structuredLLM = llm.withStructuredOutput(UserInputSchema);
-    
-    try {
-      const parsedInfo = await structuredLLM.invoke([
-        new SystemMessage("You are a customer service representative responsible for extracting customer identifier. Only extract the customer's account information from the message history. If they haven't provided the information yet, return an empty string for the identifier"),
-        userInput
-      ]);
-      
-      let customerId: string | null = null;
-      if (parsedInfo.identifier) {
-        customerId = await getCustomerIdFromIdentifier(parsedInfo.identifier);
-      }
-      
-      if (customerId) {
-        const intentMessage = new SystemMessage(
-          `Thank you for providing your information! I was able to verify your account with customer id ${customerId}.`
-        );
-        return {
-          customer_id: customerId as string,
-          messages: [intentMessage]
-        };
-      } else {
-        const response = await llm.invoke([
-          new SystemMessage(systemInstructions),
-          ...state.messages
-        ]);
-        return { messages: [response] };
-      }
-    } catch (error) {
-      // Fallback to regular LLM if structured output fails
-      const response = await llm.invoke([
-        new SystemMessage(systemInstructions),
-        ...state.messages
-      ]);
-      return { messages: [response] };
+  if (isLocked(state)) {
+    return { messages: [new AIMessage(LOCKOUT_MESSAGE)] };
+  }
+
+  const userInput = state.messages[state.messages.length - 1];
+
+  // Parse for customer identifier and second factor using structured output
+  const structuredLLM = llm.withStructuredOutput(UserInputSchema);
+  let parsedInfo: z.infer<typeof UserInputSchema>;
+  try {
+    parsedInfo = await structuredLLM.invoke([
+      new SystemMessage("You are a customer service representative responsible for extracting customer identifier, last name and postal code. Only extract the customer's account information from the message history. If they haven't provided the information yet, return an empty string for it. Also tell whether the customer asks about their own account data."),
+      userInput
+    ]);
+  } catch (error) {
+    // Fallback to asking again if structured output fails
+    parsedInfo = { identifier: '', last_name: '', postal_code: '', needs_account_data: state.second_factor_required };
+  }
+
+  // A verified customer may ask for their account data later in the thread, which then needs the second factor
+  const secondFactorRequired = state.second_factor_required || parsedInfo.needs_account_data;
+  if (isVerified({ ...state, second_factor_required: secondFactorRequired })) {
+    return state.second_factor_required === secondFactorRequired ? {} : { second_factor_required: secondFactorRequired };
+  }
+
+  let attempts = state.verification_attempts;
+  let customerId = state.customer_id;
+  if (!customerId && parsedInfo.identifier) {
+    customerId = await getCustomerIdFromIdentifier(parsedInfo.identifier);
+    attempts += customerId ? 0 : 1;
+  }
+
+  // A customer with too many failed second factors, in any thread, locks this thread too
+  const customerAttempts = customerId ? await getFailedAttempts(customerId) : 0;
+  let secondFactorVerified = state.second_factor_verified;
+  if (customerAttempts >= MAX_VERIFICATION_ATTEMPTS) {
+    attempts = MAX_VERIFICATION_ATTEMPTS;
+  } else if (customerId && secondFactorRequired && !secondFactorVerified && (parsedInfo.last_name || parsedInfo.postal_code)) {
+    secondFactorVerified = await verifySecondFactor(customerId, parsedInfo);
+    if (secondFactorVerified) {
+      await verificationStore.delete(FAILED_ATTEMPTS_NAMESPACE, customerId);
+    } else {
+      attempts = Math.max(attempts + 1, await recordFailedAttempt(customerId));
     }
   }
-  return {};
+
+  const update: Partial<GraphState> = {
+    customer_id: customerId,
+    second_factor_required: secondFactorRequired,
+    second_factor_verified: secondFactorVerified,
+    verification_attempts: attempts,
+  };
+  const next = { ...state, ...update } as GraphState;
+
+  if (isLocked(next)) {
+    console.warn(`---VERIFICATION LOCKED--- ${JSON.stringify({ customer_id: customerId, attempts: next.verification_attempts })}`);
+    return { ...update, messages: [new AIMessage(LOCKOUT_MESSAGE)] };
+  }
+  if (isVerified(next)) {
+    const intentMessage = new SystemMessage(
+      `Thank you for providing your information! I was able to verify your account with customer id ${customerId}.`
+    );
+    return { ...update, messages: [intentMessage] };
+  }
+
+  const missing = customerId
+    ? `The customer's account was found, but to access their account data they also need to confirm the last name or the postal code of the account.`
+    : `In order to verify their identity, one of their customer ID, email, or phone number needs to be provided.`;
+  const systemInstructions = `You are a music store agent, where you are trying to verify the customer identity 
+  as the first step of the customer support process. 
+  Only after their account is verified, you would be able to support them on resolving the issue. 
+  ${missing}
+  If the customer has not provided this information, please ask them for it.
+  If they have provided it but it doesn't match our records, please ask them to revise it. Never reveal the details of the account.
+  They have ${MAX_VERIFICATION_ATTEMPTS - next.verification_attempts} attempts left.`;
+  const response = await llm.invoke([
+    new SystemMessage(systemInstructions),
+    ...state.messages
+  ]);
+  return { ...update, messages: [response] };
 }
 
 // Node: Human input (interrupt point)
 export async function humanInput(state: GraphState): Promise<Partial<GraphState>> {
   // Use the interrupt mechanism to ask for customer information
-  const userInput = await interrupt("Please provide your customer information (ID, email, or phone number).");
-  return { messages: [userInput] };
+  const userInput = await interrupt("Please provide your customer information (ID, email, or phone number, and your last name or postal code for account questions).");
+  // Wrap the reply in a message, so that it gets its own id and isn't merged with the previous reply
+  return { messages: [new HumanMessage(userInput)] };
 }
 
-// Conditional edge: should interrupt
+// Conditional edge: should interrupt, or end the thread once it is locked
 export function shouldInterrupt(state: GraphState): string {
-  if (state.customer_id !== null) {
+  if (isLocked(state)) {
+    return "locked";
+  } else if (isVerified(state)) {
     return "continue";
   } else {
     return "interrupt";
@@ -141,7 +294,7 @@ export function shouldInterrupt(state: GraphState): string {
 export const supervisorPrebuilt = supervisorPrebuiltWorkflow.compile({ name: "multi-agent-entry" });
 
 // Build the multi-agent verification workflow
-const multiAgentVerify = new StateGraph(SupervisorState);
+const multiAgentVerify = new StateGraph(VerificationState);
 
 // Add nodes
 multiAgentVerify
@@ -155,6 +308,7 @@ multiAgentVerify
   {
     "continue": "supervisor",
     "interrupt": "human_input",
+    "locked": "__end__",
   }
 )
 .addEdge("human_input", "verify_info")
@@ -197,7 +351,8 @@ async function main() {
   let first_stream = await graph.stream({ messages: [new HumanMessage(question)] }, config);
   await printStream(first_stream);
 
-  let feedback = "My phone number is +55 (12) 3923-5555.";
+  // Invoices are account data, so the customer also confirms their last name
+  let feedback = "My phone number is +55 (12) 3923-5555 and my last name is Gonçalves.";
   let second_stream = await graph.stream(new Command({ resume: feedback }), config);
   await printStream(second_stream);
 
@@ -1,5 +1,5 @@
-import { llm, getEngineForChinookDb, queryChinookDb } from './utils';
-import { StateGraph, Annotation } from '@langchain/langgraph';
+import { llm, getEngineForChinookDb, queryChinookDb, formatQueryResult, authorizeCustomer } from './utils';
+import { StateGraph, Annotation, LangGraphRunnableConfig } from '@langchain/langgraph';
 import { HumanMessage, SystemMessage, AIMessage, BaseMessage } from '@langchain/core/messages';
 import { tool } from '@langchain/core/tools';
 import { createReactAgent } from '@langchain/langgraph/prebuilt';
@@ -16,7 +16,7 @@ This agent is specialized for retrieving and processing invoice information from
 It provides tools to query invoice data, customer information, and employee details.
 */
 
-// Initialize database connection
+// The database connection, shared by every subagent (see getEngineForChinookDb)
 let db: any;
 
 async function initializeDb() {
@@ -36,6 +36,10 @@ const InvoiceAgentState = Annotation.Root({
     reducer: (currentState, updateValue) => updateValue,
     default: () => null,
   }),
+  second_factor_verified: Annotation<boolean>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => false,
+  }),
   loaded_memory: Annotation<string | null>({
     reducer: (currentState, updateValue) => updateValue,
     default: () => null,
@@ -48,63 +52,86 @@ const InvoiceAgentState = Annotation.Root({
 
 type GraphState = typeof InvoiceAgentState.State;
 
+/*
+The invoice tools act for the verified customer in the graph state, not for a customer ID chosen by the LLM
+(see `authorizeCustomer` in ```multi-agent/utils.ts```). The LLM may still pass the customer ID the user asked about,
+so that a request for someone else's invoices is refused instead of silently answered with the customer's own.
+*/
+const requestedCustomerId = z.string().optional()
+  .describe("The customer ID the user asked about, if they named one. The tool only ever returns the verified customer's own data.");
+
 // Tool: Get invoices by customer sorted by date
-const getInvoicesByCustomerSortedByDate = tool(async (input: { customer_id: string }) => {
+const getInvoicesByCustomerSortedByDate = tool(async (input: { customer_id?: string }, config: LangGraphRunnableConfig) => {
+  const customerId = authorizeCustomer("get_invoices_by_customer_sorted_by_date", input.customer_id, config, { secondFactor: true });
   const dbInstance = await initializeDb();
-  const query = `SELECT * FROM Invoice WHERE CustomerId = ${input.customer_id} ORDER BY InvoiceDate DESC;`;
-  const result = await queryChinookDb(dbInstance, query);
-  return JSON.stringify(result);
+  const query = `SELECT * FROM Invoice WHERE CustomerId = ? ORDER BY InvoiceDate DESC;`;
+  const result = await queryChinookDb(dbInstance, query, [customerId]);
+  return formatQueryResult(result);
 }, {
   name: "get_invoices_by_customer_sorted_by_date",
-  description: "Look up all invoices for a customer using their ID. The invoices are sorted in descending order by invoice date, which helps when the customer wants to view their most recent/oldest invoice, or if they want to view invoices within a specific date range.",
+  description: "Look up all invoices of the verified customer. The invoices are sorted in descending order by invoice date, which helps when the customer wants to view their most recent/oldest invoice, or if they want to view invoices within a specific date range.",
   schema: z.object({
-    customer_id: z.string()
+    customer_id: requestedCustomerId
   })
 });
 
 // Tool: Get invoices sorted by unit price
-const getInvoicesSortedByUnitPrice = tool(async (input: { customer_id: string }) => {
+const getInvoicesSortedByUnitPrice = tool(async (input: { customer_id?: string }, config: LangGraphRunnableConfig) => {
+  const customerId = authorizeCustomer("get_invoices_sorted_by_unit_price", input.customer_id, config, { secondFactor: true });
   const dbInstance = await initializeDb();
   const query = `
     SELECT Invoice.*, InvoiceLine.UnitPrice
     FROM Invoice
     JOIN InvoiceLine ON Invoice.InvoiceId = InvoiceLine.InvoiceId
-    WHERE Invoice.CustomerId = ${input.customer_id}
+    WHERE Invoice.CustomerId = ?
     ORDER BY InvoiceLine.UnitPrice DESC;
   `;
-  const result = await queryChinookDb(dbInstance, query);
-  return JSON.stringify(result);
+  const result = await queryChinookDb(dbInstance, query, [customerId]);
+  return formatQueryResult(result);
 }, {
   name: "get_invoices_sorted_by_unit_price",
-  description: "Use this tool when the customer wants to know the details of one of their invoices based on the unit price/cost of the invoice. This tool looks up all invoices for a customer, and sorts the unit price from highest to lowest. In order to find the invoice associated with the customer, we need to know the customer ID.",
+  description: "Use this tool when the customer wants to know the details of one of their invoices based on the unit price/cost of the invoice. This tool looks up all invoices of the verified customer, and sorts the unit price from highest to lowest.",
   schema: z.object({
-    customer_id: z.string()
+    customer_id: requestedCustomerId
   })
 });
 
 // Tool: Get employee by invoice and customer
-const getEmployeeByInvoiceAndCustomer = tool(async (input: { invoice_id: string; customer_id: string }) => {
+const getEmployeeByInvoiceAndCustomer = tool(async (input: { invoice_id: string; customer_id?: string }, config: LangGraphRunnableConfig) => {
+  const customerId = authorizeCustomer("get_employee_by_invoice_and_customer", input.customer_id, config, { secondFactor: true });
   const dbInstance = await initializeDb();
+
+  // An invoice of another customer is refused like a request for another customer
+  const { rows: invoices } = await queryChinookDb(dbInstance, `SELECT CustomerId FROM Invoice WHERE InvoiceId = ?;`, [input.invoice_id]);
+  if (invoices.length) {
+    try {
+      authorizeCustomer("get_employee_by_invoice_and_customer", String(invoices[0].CustomerId), config, { secondFactor: true });
+    } catch {
+      // Don't tell the customer whose invoice it is
+      throw new Error(`Not authorized: invoice ${input.invoice_id} is not an invoice of the customer.`);
+    }
+  }
+
   const query = `
     SELECT Employee.FirstName, Employee.Title, Employee.Email
     FROM Employee
     JOIN Customer ON Customer.SupportRepId = Employee.EmployeeId
     JOIN Invoice ON Invoice.CustomerId = Customer.CustomerId
-    WHERE Invoice.InvoiceId = (${input.invoice_id}) AND Invoice.CustomerId = (${input.customer_id});
+    WHERE Invoice.InvoiceId = ? AND Invoice.CustomerId = ?;
   `;
   
-  const result = await queryChinookDb(dbInstance, query);
+  const result = await queryChinookDb(dbInstance, query, [input.invoice_id, customerId]);
   
-  if (!result || result.length === 0) {
-    return `No employee found for invoice ID ${input.invoice_id} and customer identifier ${input.customer_id}.`;
+  if (!result.rows.length) {
+    return `No employee found for invoice ID ${input.invoice_id} and customer identifier ${customerId}.`;
   }
-  return JSON.stringify(result);
+  return formatQueryResult(result);
 }, {
   name: "get_employee_by_invoice_and_customer",
-  description: "This tool will take in an invoice ID and a customer ID and return the employee information associated with the invoice.",
+  description: "This tool will take in an invoice ID of the verified customer and return the employee information associated with the invoice.",
   schema: z.object({
     invoice_id: z.string(),
-    customer_id: z.string()
+    customer_id: requestedCustomerId
   })
 });
 
@@ -122,6 +149,7 @@ You have access to three tools. These tools enable you to retrieve and process i
 - get_invoices_sorted_by_unit_price: This tool retrieves all invoices for a customer, sorted by unit price.
 - get_employee_by_invoice_and_customer: This tool retrieves the employee information associated with an invoice and a customer.
 
+The tools always act for the verified customer. If a tool refuses a request because it targets another customer, tell the customer you can only help with their own account.
 If you are unable to retrieve the invoice information, inform the customer you are unable to retrieve the information, and ask if they would like to search for something else.
 
 CORE RESPONSIBILITIES:
@@ -145,8 +173,9 @@ export const graph = createReactAgent({
 
 // Example usage
 async function main() {
-  const question = "What are the invoices for customer ID 1?";
-  const stream = await graph.stream({ messages: [new HumanMessage(question)] });
+  const question = "What are my invoices?";
+  // The tools act for the customer in the state, which is verified by `verify_info` in the full assistant (see hil-assistant.ts)
+  const stream = await graph.stream({ messages: [new HumanMessage(question)], customer_id: "1", second_factor_verified: true });
   for await (const chunk of stream) {
     const nodeName = Object.keys(chunk)[0];
     const nodeData = chunk[nodeName as keyof typeof chunk];
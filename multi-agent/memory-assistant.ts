@@ -11,11 +11,10 @@ import {
   verifyInfo, 
   humanInput, 
   shouldInterrupt, 
-  supervisorPrebuilt
+  supervisorPrebuilt,
+  VerificationState as AssistantState
 } from './hil-assistant';
 
-import { SupervisorState as AssistantState } from './assistant-agent';
-
 /* READ
 Now that we have created an agent workflow that includes verification and execution, 
 let's take it a step further. 
@@ -66,8 +65,8 @@ async function loadMemory(state: GraphState): Promise<Partial<GraphState>> {
 }
 
 // --- Zod schema for structured output ---
+// The customer ID isn't part of it: the profile is stored for the verified customer in the state, never for an ID picked by the LLM
 const UserProfileSchema = z.object({
-  customer_id: z.string(),
   music_preferences: z.array(z.string())
 });
 
@@ -81,7 +80,6 @@ You specifically care about saving any music interest the customer has shared ab
 To help you with this task, I have attached the conversation that has taken place between the customer and the customer support assistant below, as well as the existing memory profile associated with the customer that you should either update or create. 
 
 The customer's memory profile should have the following fields:
-- customer_id: the customer ID of the customer
 - music_preferences: the music preferences of the customer
 
 These are the fields you should keep track of and update in the memory profile. If there has been no new information shared by the customer, you should not update the memory profile. It is completely okay if you do not have new information to update the memory profile with. In that case, just leave the values as they are.
@@ -95,7 +93,6 @@ The existing memory profile associated with the customer that you should either
 {memory_profile}
 
 Ensure your response is an object that has the following fields:
-- customer_id: the customer ID of the customer
 - music_preferences: the music preferences of the customer
 
 For each key in the object, if there is no new information, do not update the value, just keep the value that is already there. If there is new information, update the value. 
@@ -128,9 +125,10 @@ async function createOrUpdateMemory(state: GraphState): Promise<Partial<GraphSta
     .replace('{memory_profile}', formattedMemory);
 
   const structuredLLM = llm.withStructuredOutput(UserProfileSchema);
-  const updatedProfile = await structuredLLM.invoke([
+  const { music_preferences } = await structuredLLM.invoke([
     new SystemMessage(systemPrompt)
   ]);
+  const updatedProfile: UserProfile = { customer_id: userId, music_preferences };
 
   // Store the updated profile
   await store.put(namespace, "user_memory", updatedProfile);
@@ -159,6 +157,7 @@ multiAgentMemory
   {
     "continue": "load_memory",
     "interrupt": "human_input",
+    "locked": "__end__",
   }
 )
 .addEdge("human_input", "verify_info")
@@ -175,7 +174,7 @@ export const graph = multiAgentMemory.compile({
 
 // --- Example usage ---
 async function main() {
-  const question = "My customer ID is 1. How much was my most recent purchase? What albums do you have by the Rolling Stones?";
+  const question = "My customer ID is 1 and my last name is Gonçalves. How much was my most recent purchase? What albums do you have by the Rolling Stones?";
   
   // Create configuration with required thread_id for MemorySaver
   const thread_id = crypto.randomUUID();
@@ -208,7 +207,7 @@ async function main() {
 
   // Check the memory store after processing, and see that our preferences are saved
   console.log('\n--- Memory Store Check ---');
-  const userId = "1"; // Since we used customer ID 1 in the question
+  const userId = "1"; // The customer verified with customer ID 1 in the question
   const namespace = [userId, "memory_profile"];
   const memory = await store.get(namespace, "user_memory");
   if (memory && memory.value) {
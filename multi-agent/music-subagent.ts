@@ -1,4 +1,4 @@
-import { llm, getEngineForChinookDb, queryChinookDb } from './utils';
+import { llm, getEngineForChinookDb, queryChinookDb, containsPattern, formatQueryResult } from './utils';
 import { Document } from '@langchain/core/documents';
 import { StateGraph, Annotation } from '@langchain/langgraph';
 import { HumanMessage, SystemMessage, AIMessage, BaseMessage, ToolMessage } from '@langchain/core/messages';
@@ -8,10 +8,10 @@ import { z } from 'zod';
 
 /* READ
 This agent is specialized for helping customers discover and learn about music in the digital catalog.
-It provides tools to query music data, including albums, tracks, genres, and song information.
+It provides tools to query music data, including albums, tracks, genres, song information and playlists.
 */
 
-// Initialize database connection
+// The database connection, shared by every subagent (see getEngineForChinookDb)
 let db: any;
 
 async function initializeDb() {
@@ -42,6 +42,10 @@ const MusicAgentState = Annotation.Root({
     reducer: (currentState, updateValue) => updateValue,
     default: () => null,
   }),
+  second_factor_verified: Annotation<boolean>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => false,
+  }),
   loaded_memory: Annotation<string | null>({
     reducer: (currentState, updateValue) => updateValue,
     default: () => null,
@@ -60,6 +64,9 @@ Tools are functionts that can act as extension of the LLM's capabilities.
 In our case, we will create several tools that interacts with the Chinook database regarding music. 
 
 We can create tools using the tool wrapper.
+
+The values the LLM passes to a tool come from the conversation, so they are bound as query parameters (`?`),
+never pasted into the SQL. See `queryChinookDb` in ```multi-agent/utils.ts```.
 */
 // Tool: Get albums by artist
 const getAlbumsByArtist = tool(async (input: { artist: string }) => {
@@ -68,10 +75,10 @@ const getAlbumsByArtist = tool(async (input: { artist: string }) => {
     SELECT Album.Title, Artist.Name 
     FROM Album 
     JOIN Artist ON Album.ArtistId = Artist.ArtistId 
-    WHERE Artist.Name LIKE '%${input.artist}%';
+    WHERE Artist.Name LIKE ? ESCAPE '\\';
   `;
-  const result = await queryChinookDb(dbInstance, query);
-  return JSON.stringify(result);
+  const result = await queryChinookDb(dbInstance, query, [containsPattern(input.artist)]);
+  return formatQueryResult(result);
 }, {
   name: "get_albums_by_artist",
   description: "Get albums by an artist.",
@@ -88,10 +95,10 @@ const getTracksByArtist = tool(async (input: { artist: string }) => {
     FROM Album 
     LEFT JOIN Artist ON Album.ArtistId = Artist.ArtistId 
     LEFT JOIN Track ON Track.AlbumId = Album.AlbumId 
-    WHERE Artist.Name LIKE '%${input.artist}%';
+    WHERE Artist.Name LIKE ? ESCAPE '\\';
   `;
-  const result = await queryChinookDb(dbInstance, query);
-  return JSON.stringify(result);
+  const result = await queryChinookDb(dbInstance, query, [containsPattern(input.artist)]);
+  return formatQueryResult(result);
 }, {
   name: "get_tracks_by_artist",
   description: "Get songs by an artist (or similar artists).",
@@ -105,14 +112,15 @@ const getSongsByGenre = tool(async (input: { genre: string }) => {
   const dbInstance = await initializeDb();
   
   // First get genre IDs
-  const genreIdQuery = `SELECT GenreId FROM Genre WHERE Name LIKE '%${input.genre}%'`;
-  const genreIds = await queryChinookDb(dbInstance, genreIdQuery);
+  const genreIdQuery = `SELECT GenreId FROM Genre WHERE Name LIKE ? ESCAPE '\\'`;
+  const { rows: genreIds } = await queryChinookDb(dbInstance, genreIdQuery, [containsPattern(input.genre)]);
   
   if (!genreIds || genreIds.length === 0) {
     return `No songs found for the genre: ${input.genre}`;
   }
   
-  const genreIdList = genreIds.map((gid: any) => gid.GenreId).join(", ");
+  // One placeholder per genre ID
+  const genreIdList = genreIds.map(() => "?").join(", ");
 
   // Then get songs for those genres
   const songsQuery = `
@@ -124,7 +132,7 @@ const getSongsByGenre = tool(async (input: { genre: string }) => {
     GROUP BY Artist.Name
     LIMIT 8;
   `;
-  const songs = await queryChinookDb(dbInstance, songsQuery);
+  const { rows: songs } = await queryChinookDb(dbInstance, songsQuery, genreIds.map((gid: any) => gid.GenreId));
   
   if (!songs || songs.length === 0) {
     return `No songs found for the genre: ${input.genre}`;
@@ -148,10 +156,10 @@ const getSongsByGenre = tool(async (input: { genre: string }) => {
 const checkForSongs = tool(async (input: { song_title: string }) => {
   const dbInstance = await initializeDb();
   const query = `
-    SELECT * FROM Track WHERE Name LIKE '%${input.song_title}%';
+    SELECT * FROM Track WHERE Name LIKE ? ESCAPE '\\';
   `;
-  const result = await queryChinookDb(dbInstance, query);
-  return JSON.stringify(result);
+  const result = await queryChinookDb(dbInstance, query, [containsPattern(input.song_title)]);
+  return formatQueryResult(result);
 }, {
   name: "check_for_songs",
   description: "Check if a song exists by its name.",
@@ -160,11 +168,141 @@ const checkForSongs = tool(async (input: { song_title: string }) => {
   })
 });
 
+/*
+Playlists: Chinook stores them in the `Playlist` table, and the tracks of each playlist in `PlaylistTrack`.
+Several playlists share a name (ex. "Music"), so results always include the `PlaylistId`, and a playlist
+can be looked up by its ID or its name.
+*/
+// Tool: List playlists
+const listPlaylists = tool(async () => {
+  const dbInstance = await initializeDb();
+  const query = `
+    SELECT Playlist.PlaylistId, Playlist.Name, COUNT(PlaylistTrack.TrackId) as TrackCount
+    FROM Playlist
+    LEFT JOIN PlaylistTrack ON PlaylistTrack.PlaylistId = Playlist.PlaylistId
+    GROUP BY Playlist.PlaylistId
+    ORDER BY Playlist.Name, Playlist.PlaylistId;
+  `;
+  const result = await queryChinookDb(dbInstance, query);
+  return formatQueryResult(result);
+}, {
+  name: "list_playlists",
+  description: "List all playlists of the store, with their ID and number of tracks.",
+  schema: z.object({})
+});
+
+// Tool: Get playlist tracks
+const getPlaylistTracks = tool(async (input: { playlist: string }) => {
+  const dbInstance = await initializeDb();
+  // A number is a playlist ID, anything else part of a playlist name
+  const playlistId = /^\d+$/.test(input.playlist.trim()) ? Number(input.playlist.trim()) : null;
+  const query = `
+    SELECT Playlist.PlaylistId, Playlist.Name as PlaylistName, Track.Name as SongName, Artist.Name as ArtistName, Album.Title as AlbumTitle
+    FROM Playlist
+    JOIN PlaylistTrack ON PlaylistTrack.PlaylistId = Playlist.PlaylistId
+    JOIN Track ON Track.TrackId = PlaylistTrack.TrackId
+    LEFT JOIN Album ON Track.AlbumId = Album.AlbumId
+    LEFT JOIN Artist ON Album.ArtistId = Artist.ArtistId
+    WHERE ${playlistId !== null ? "Playlist.PlaylistId = ?" : "Playlist.Name LIKE ? ESCAPE '\\'"}
+    ORDER BY Playlist.PlaylistId, Track.Name;
+  `;
+  const result = await queryChinookDb(dbInstance, query, [playlistId ?? containsPattern(input.playlist)]);
+
+  if (!result.rows.length) {
+    return `No tracks found for the playlist: ${input.playlist}`;
+  }
+  return formatQueryResult(result);
+}, {
+  name: "get_playlist_tracks",
+  description: "Show the tracks of a playlist, given its ID or name.",
+  schema: z.object({
+    playlist: z.string().describe("The playlist ID or (part of) the playlist name.")
+  })
+});
+
+// Tool: Get playlists by track
+const getPlaylistsByTrack = tool(async (input: { song_title: string }) => {
+  const dbInstance = await initializeDb();
+  const query = `
+    SELECT Track.Name as SongName, Artist.Name as ArtistName, Playlist.PlaylistId, Playlist.Name as PlaylistName
+    FROM Track
+    JOIN PlaylistTrack ON PlaylistTrack.TrackId = Track.TrackId
+    JOIN Playlist ON Playlist.PlaylistId = PlaylistTrack.PlaylistId
+    LEFT JOIN Album ON Track.AlbumId = Album.AlbumId
+    LEFT JOIN Artist ON Album.ArtistId = Artist.ArtistId
+    WHERE Track.Name LIKE ? ESCAPE '\\'
+    ORDER BY Track.Name, Playlist.PlaylistId;
+  `;
+  const result = await queryChinookDb(dbInstance, query, [containsPattern(input.song_title)]);
+
+  if (!result.rows.length) {
+    return `No playlists found with the song: ${input.song_title}`;
+  }
+  return formatQueryResult(result);
+}, {
+  name: "get_playlists_by_track",
+  description: "Find which playlists contain a song, given its name.",
+  schema: z.object({
+    song_title: z.string()
+  })
+});
+
+// Tool: Search playlists by genre or artist
+const searchPlaylists = tool(async (input: { genre?: string; artist?: string }) => {
+  if (!input.genre && !input.artist) {
+    throw new Error("Provide a genre, an artist, or both to search playlists.");
+  }
+  const dbInstance = await initializeDb();
+
+  // Only filter on the criteria that were given
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (input.genre) {
+    conditions.push(`Genre.Name LIKE ? ESCAPE '\\'`);
+    params.push(containsPattern(input.genre));
+  }
+  if (input.artist) {
+    conditions.push(`Artist.Name LIKE ? ESCAPE '\\'`);
+    params.push(containsPattern(input.artist));
+  }
+
+  // Playlists with the most matching tracks first
+  const query = `
+    SELECT Playlist.PlaylistId, Playlist.Name as PlaylistName, COUNT(DISTINCT Track.TrackId) as MatchingTracks
+    FROM Playlist
+    JOIN PlaylistTrack ON PlaylistTrack.PlaylistId = Playlist.PlaylistId
+    JOIN Track ON Track.TrackId = PlaylistTrack.TrackId
+    LEFT JOIN Genre ON Track.GenreId = Genre.GenreId
+    LEFT JOIN Album ON Track.AlbumId = Album.AlbumId
+    LEFT JOIN Artist ON Album.ArtistId = Artist.ArtistId
+    WHERE ${conditions.join(" AND ")}
+    GROUP BY Playlist.PlaylistId
+    ORDER BY MatchingTracks DESC, Playlist.Name;
+  `;
+  const result = await queryChinookDb(dbInstance, query, params);
+
+  if (!result.rows.length) {
+    return `No playlists found for ${[input.genre && `the genre: ${input.genre}`, input.artist && `the artist: ${input.artist}`].filter(Boolean).join(" and ")}`;
+  }
+  return formatQueryResult(result);
+}, {
+  name: "search_playlists",
+  description: "Search playlists that contain songs of a genre, of an artist, or both. Returns the playlists with the number of matching tracks.",
+  schema: z.object({
+    genre: z.string().optional(),
+    artist: z.string().optional()
+  })
+});
+
 const musicTools = [
   getAlbumsByArtist, 
   getTracksByArtist, 
   getSongsByGenre, 
-  checkForSongs
+  checkForSongs,
+  listPlaylists,
+  getPlaylistTracks,
+  getPlaylistsByTrack,
+  searchPlaylists
 ];
 
 // Bind tools to LLM
@@ -189,8 +327,8 @@ const musicToolNode = new ToolNode(musicTools);
 
 // Music assistant node
 async function musicAssistant(state: GraphState): Promise<Partial<GraphState>> {
-  // Fetching long term memory
-  const memory = state.loaded_memory || "None";
+  // Fetching long term memory, which is only trusted for a verified customer (memory is loaded for state.customer_id)
+  const memory = (state.customer_id && state.loaded_memory) || "None";
 
   // Instructions for our agent
   const musicAssistantPrompt = `
@@ -216,7 +354,7 @@ async function musicAssistant(state: GraphState): Promise<Partial<GraphState>> {
   3. When providing song lists:
      - Include the artist name with each song
      - Mention the album when relevant
-     - Note if it's part of any playlists
+     - Note if it's part of any playlists (use get_playlists_by_track)
      - Indicate if there are multiple versions
   
   Additional context is provided below: 
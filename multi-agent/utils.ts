@@ -1,55 +1,342 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
 import axios from 'axios';
 import * as sqlite3 from 'sqlite3';
-import { ChatOpenAI } from '@langchain/openai';
+import { getCurrentTaskInput, LangGraphRunnableConfig } from '@langchain/langgraph';
+import { createChatModel } from '../shared/models';
+import { isReplaying, recordCall } from '../shared/cassette';
 
-// NOTE: Configure the LLM that you want to use
-export const llm = new ChatOpenAI({
-  modelName: 'gpt-4o',
-  temperature: 0,
-});
+/*
+NOTE: The LLM is selected per run through `config.configurable`, with defaults from your .env file,
+ex. `{ configurable: { model_provider: 'anthropic', model: 'claude-3-5-sonnet-20240620' } }`.
+See ```shared/models.ts``` for every setting.
+*/
+export const llm = createChatModel();
 
-export function getEngineForChinookDb(): Promise<sqlite3.Database> {
+/* Loading the Chinook database ----------------------------------------------------
+The first time, the Chinook SQL script is downloaded from GitHub and built into a SQLite file, cached on disk
+in `CHINOOK_CACHE_DIR` (default .chinook/). Later processes open the cached file instead of downloading again.
+
+To run offline, point `CHINOOK_DB_PATH` (see .env.example) at a local copy:
+- a `.sqlite` / `.db` file is opened as it is, in place: it isn't copied into the cache
+- a `.sql` script is built into the cache once, and rebuilt whenever the script is modified
+
+All the subagents of a process share one connection, so the database is only loaded once.
+That connection is read-only. Tools that need to change data (ex. to edit a playlist) open the
+read-write connection with `getEngineForChinookDb({ readWrite: true })`, and pass `readWrite` to `queryChinookDb`.
+Changes are written to the file the connection opened: the cached file for a `.sql` script (they survive
+a restart, until the cache is rebuilt), but the file itself for a `.sqlite` / `.db` source, so point
+`CHINOOK_DB_PATH` at a copy if the original must stay untouched.
+*/
+export const CHINOOK_SQL_URL = 'https://raw.githubusercontent.com/lerocha/chinook-database/master/ChinookDatabase/DataSources/Chinook_Sqlite.sql';
+export const CHINOOK_CACHE_DIR = process.env.CHINOOK_CACHE_DIR || '.chinook';
+
+export interface ChinookDbOptions {
+  // A .sqlite / .db file, or a .sql script as a path or URL, defaults to `CHINOOK_DB_PATH` or the script on GitHub
+  source?: string;
+  // Open the connection that can change data
+  readWrite?: boolean;
+}
+
+// The shared connections of this process, by source and mode
+const chinookConnections = new Map<string, Promise<sqlite3.Database>>();
+// The file and open mode of each shared connection, so a query can open its own connection to the same file
+const connectionTargets = new WeakMap<sqlite3.Database, { file: string; mode: number }>();
+
+function openDatabase(file: string, mode: number): Promise<sqlite3.Database> {
   return new Promise((resolve, reject) => {
-    // Create in-memory SQLite database
-    const db = new sqlite3.Database(':memory:', (err) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-
-      // Load the Chinook database schema
-      const chinookUrl = 'https://raw.githubusercontent.com/lerocha/chinook-database/master/ChinookDatabase/DataSources/Chinook_Sqlite.sql';
-      
-      axios.get(chinookUrl)
-        .then((response) => {
-          const sqlScript = response.data;
-          db.exec(sqlScript, (err) => {
-            if (err) {
-              console.error('Error loading Chinook database:', err);
-              reject(err);
-            } else {
-              // console.log('Chinook database loaded successfully');
-              resolve(db);
-            }
-          });
-        })
-        .catch((error) => {
-          console.error('Error fetching Chinook database schema:', error);
-          reject(error);
-        });
-    });
+    const db = new sqlite3.Database(file, mode, (err) => (err ? reject(err) : resolve(db)));
   });
 }
 
-// Helper function to query the Chinook database
-export function queryChinookDb(db: sqlite3.Database, query: string): Promise<any[]> {
+function closeDatabase(db: sqlite3.Database): Promise<void> {
+  return new Promise((resolve, reject) => db.close((err) => (err ? reject(err) : resolve())));
+}
+
+// The cache builds running in this process, by cache file, so the read-only and read-write connections share one
+const chinookBuilds = new Map<string, Promise<string>>();
+
+// Build the database of a .sql script into the cache, unless it is already there and up to date
+function buildChinookCache(source: string): Promise<string> {
+  const isUrl = /^https?:\/\//.test(source);
+  const key = createHash('sha256').update(isUrl ? source : path.resolve(source)).digest('hex').slice(0, 12);
+  const cacheFile = path.join(CHINOOK_CACHE_DIR, `chinook-${key}.sqlite`);
+  if (fs.existsSync(cacheFile) && (isUrl || fs.statSync(source).mtimeMs <= fs.statSync(cacheFile).mtimeMs)) {
+    return Promise.resolve(cacheFile);
+  }
+  if (!chinookBuilds.has(cacheFile)) {
+    chinookBuilds.set(cacheFile, writeChinookCache(source, isUrl, cacheFile).finally(() => chinookBuilds.delete(cacheFile)));
+  }
+  return chinookBuilds.get(cacheFile)!;
+}
+
+async function writeChinookCache(source: string, isUrl: boolean, cacheFile: string): Promise<string> {
+
+  console.log(`Building the Chinook database from ${source} into ${cacheFile}`);
+  const sqlScript: string = isUrl
+    ? (await axios.get(source, { responseType: 'text' })).data
+    : fs.readFileSync(source, 'utf8');
+
+  // Build into a temporary file of our own and move it in place, so a failed build never leaves a broken cache,
+  // and builds in other processes never write to the same file
+  fs.mkdirSync(CHINOOK_CACHE_DIR, { recursive: true });
+  const tempFile = `${cacheFile}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  const db = await openDatabase(tempFile, sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE);
+  try {
+    await new Promise<void>((resolve, reject) => db.exec(sqlScript, (err) => (err ? reject(err) : resolve())));
+  } catch (error) {
+    console.error('Error loading Chinook database:', error);
+    await closeDatabase(db);
+    fs.rmSync(tempFile, { force: true });
+    throw error;
+  }
+  await closeDatabase(db);
+  fs.renameSync(tempFile, cacheFile);
+  return cacheFile;
+}
+
+async function openChinookDb(source: string, readWrite: boolean): Promise<sqlite3.Database> {
+  // When replaying a cassette, every query is answered from the cassette, so skip loading the database
+  if (isReplaying()) {
+    return openDatabase(':memory:', sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE);
+  }
+
+  const file = /\.(sqlite3?|db)$/i.test(source) ? source : await buildChinookCache(source);
+  const mode = readWrite ? sqlite3.OPEN_READWRITE : sqlite3.OPEN_READONLY;
+  const db = await openDatabase(file, mode);
+  // The read-only and read-write connections use the same file, so wait for each other's locks
+  db.configure('busyTimeout', CHINOOK_QUERY_TIMEOUT_MS);
+  connectionTargets.set(db, { file, mode });
+  return db;
+}
+
+export function getEngineForChinookDb(options: ChinookDbOptions = {}): Promise<sqlite3.Database> {
+  const source = options.source ?? process.env.CHINOOK_DB_PATH ?? CHINOOK_SQL_URL;
+  const readWrite = options.readWrite ?? false;
+  const key = JSON.stringify([source, readWrite]);
+  if (!chinookConnections.has(key)) {
+    // Don't keep a failed load, so the next call can try again
+    chinookConnections.set(key, openChinookDb(source, readWrite).catch(error => {
+      chinookConnections.delete(key);
+      throw error;
+    }));
+  }
+  return chinookConnections.get(key)!;
+}
+
+/* Querying the Chinook database ---------------------------------------------------
+The tools of our agents query the database with values taken from the conversation (an artist, a customer ID...).
+Interpolating those values into the SQL would let anyone inject SQL through a chat message,
+ex. an artist named `%' UNION SELECT Email, Phone FROM Customer --`.
+
+So every query goes through `queryChinookDb`, which only runs:
+- SQL with bound parameters: values are passed as `params` and referenced with `?`, never concatenated into the SQL
+- a single read-only statement: SELECT (or WITH ... SELECT), anything else is rejected before it runs.
+  With `readWrite`, INSERT, UPDATE and DELETE are allowed too, but never schema changes
+- up to `maxRows` rows (the result says when it was truncated), within `timeoutMs`
+
+Each query runs on its own short-lived connection to the file of the shared connection. A query that runs
+past `timeoutMs` is interrupted on its own connection, so the queries other tools are running at the same time
+carry on. Opening a connection to a SQLite file is cheap, the database itself is only loaded once.
+
+Rejected or failing queries throw an Error. Inside a tool, the ToolNode catches it and returns it to the agent
+as a tool error message, so the agent can recover instead of the graph crashing.
+*/
+export type ChinookQueryParam = string | number | null;
+
+export interface ChinookQueryOptions {
+  maxRows?: number;
+  timeoutMs?: number;
+  // Allow INSERT, UPDATE and DELETE, on the read-write connection
+  readWrite?: boolean;
+}
+
+export interface ChinookQueryResult {
+  rows: any[];
+  // Whether more rows matched than `maxRows`
+  truncated: boolean;
+}
+
+export const CHINOOK_MAX_ROWS = 100;
+export const CHINOOK_QUERY_TIMEOUT_MS = 5000;
+
+const READ_STATEMENTS = ['SELECT', 'WITH'];
+const WRITE_STATEMENTS = ['INSERT', 'UPDATE', 'DELETE'];
+const WRITE_KEYWORDS = /\b(INSERT|UPDATE|DELETE|REPLACE\s+INTO)\b/i;
+const SCHEMA_KEYWORDS = /\b(DROP|ALTER|CREATE|ATTACH|DETACH|PRAGMA|VACUUM|REINDEX|ANALYZE|BEGIN|COMMIT|ROLLBACK|SAVEPOINT|RELEASE)\b/i;
+
+// Reject anything but a single allowed statement. String literals and comments are blanked out first,
+// so a keyword inside a string (ex. 'Drop Kick Murphys') doesn't count
+function checkStatement(sql: string, readWrite: boolean) {
+  const code = sql
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/"(?:[^"]|"")*"/g, '""')
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .trim()
+    .replace(/;\s*$/, '');
+
+  if (code.includes(';')) {
+    throw new Error('Query rejected: only a single SQL statement can be run at a time.');
+  }
+  const allowed = readWrite ? [...READ_STATEMENTS, ...WRITE_STATEMENTS] : READ_STATEMENTS;
+  const statement = code.split(/\s+/)[0].toUpperCase();
+  if (!allowed.includes(statement)) {
+    throw new Error(`Query rejected: ${statement || 'empty'} statements are not allowed, only ${allowed.join(', ')}.`);
+  }
+  const schemaKeyword = code.match(SCHEMA_KEYWORDS);
+  if (schemaKeyword) {
+    throw new Error(`Query rejected: ${schemaKeyword[1].toUpperCase()} is not allowed.`);
+  }
+  const writeKeyword = code.match(WRITE_KEYWORDS);
+  if (writeKeyword && !readWrite) {
+    throw new Error(`Query rejected: the database is read-only, ${writeKeyword[1].toUpperCase()} is not allowed.`);
+  }
+}
+
+// Step through the rows one at a time, so we stop reading at `maxRows` instead of loading every row
+function readRows(db: sqlite3.Database, sql: string, params: ChinookQueryParam[], maxRows: number): Promise<ChinookQueryResult> {
   return new Promise((resolve, reject) => {
-    db.all(query, (err, rows) => {
-      if (err) {
-        reject(err);
-      } else {
-        resolve(rows);
-      }
-    });
+    const rows: any[] = [];
+    const finish = (error: Error | null, truncated = false) => {
+      statement.finalize(() => (error ? reject(error) : resolve({ rows, truncated })));
+    };
+    const step = () => {
+      statement.get((err: Error | null, row: any) => {
+        if (err) return finish(err);
+        if (row === undefined) return finish(null);
+        if (rows.length === maxRows) return finish(null, true);
+        rows.push(row);
+        step();
+      });
+    };
+    const statement = db.prepare(sql, params, (err: Error | null) => (err ? reject(err) : step()));
+  });
+}
+
+// Run a read-only, parameterized query, recorded by the active cassette if any (see shared/cassette.ts)
+export async function queryChinookDb(
+  db: sqlite3.Database,
+  sql: string,
+  params: ChinookQueryParam[] = [],
+  options: ChinookQueryOptions = {}
+): Promise<ChinookQueryResult> {
+  checkStatement(sql, options.readWrite ?? false);
+  const badParam = params.find(param => param !== null && typeof param !== 'string' && typeof param !== 'number');
+  if (badParam !== undefined) {
+    throw new Error(`Query rejected: parameters must be strings, numbers or null, got ${typeof badParam}.`);
+  }
+
+  const maxRows = options.maxRows ?? CHINOOK_MAX_ROWS;
+  const timeoutMs = options.timeoutMs ?? CHINOOK_QUERY_TIMEOUT_MS;
+  return recordCall('sql', { query: sql, params, max_rows: maxRows, read_write: options.readWrite ?? false }, async () => {
+    const target = connectionTargets.get(db);
+    if (!target) {
+      throw new Error('Query rejected: open the database with getEngineForChinookDb.');
+    }
+    const queryDb = await openDatabase(target.file, target.mode);
+    queryDb.configure('busyTimeout', timeoutMs);
+    // Interrupting aborts the running query with SQLITE_INTERRUPT, only this query runs on `queryDb`
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      queryDb.interrupt();
+    }, timeoutMs);
+    try {
+      return await readRows(queryDb, sql, params, maxRows);
+    } catch (error) {
+      throw timedOut ? new Error(`Query timed out after ${timeoutMs}ms, try a more specific query.`) : error;
+    } finally {
+      clearTimeout(timer);
+      await closeDatabase(queryDb);
+    }
   });
-} 
\ No newline at end of file
+}
+
+// Match values containing `text`, with LIKE wildcards in the text escaped. Use with `LIKE ? ESCAPE '\\'`
+export function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// Format a query result for a tool message
+export function formatQueryResult(result: ChinookQueryResult): string {
+  const json = JSON.stringify(result.rows);
+  return result.truncated ? `${json}\n(Only the first ${result.rows.length} rows are shown, refine the request to see others.)` : json;
+}
+
+/* Authorizing tools ---------------------------------------------------------------
+Tools that read or change a customer's data must only ever act for the customer whose identity was verified
+(see `verify_info` in ```multi-agent/hil-assistant.ts```). If the customer ID were a tool argument, the LLM would
+pick it, and a customer could simply ask for "the invoices of customer 1".
+
+So tools take the customer from the `customer_id` of the graph state instead. `getCurrentTaskInput` returns
+the state the running node (the tool node) was called with, which the LLM can't change. A tool call that
+targets another customer, or comes before any customer was verified, is refused and logged.
+
+Tools of sensitive subagents (the invoice subagent) also require the customer to have confirmed their identity
+with a second factor, their last name or postal code: `second_factor_verified` in the graph state.
+*/
+export interface AuthorizationDenial {
+  tool: string;
+  verified_customer_id: string | null;
+  requested_customer_id: string | null;
+  reason: string;
+}
+
+function logAuthorizationDenial(denial: AuthorizationDenial) {
+  console.warn(`---AUTHORIZATION DENIED--- ${JSON.stringify({ ...denial, time: new Date().toISOString() })}`);
+}
+
+interface VerifiedState {
+  customer_id?: string | number | null;
+  second_factor_verified?: boolean | null;
+}
+
+function getVerifiedState(config?: LangGraphRunnableConfig): VerifiedState {
+  try {
+    return getCurrentTaskInput<VerifiedState>(config) ?? {};
+  } catch {
+    return {};
+  }
+}
+
+// The verified customer of the running graph, or null outside of a graph or before verification
+export function getVerifiedCustomerId(config?: LangGraphRunnableConfig): string | null {
+  const customerId = getVerifiedState(config).customer_id;
+  return customerId === null || customerId === undefined || customerId === '' ? null : String(customerId);
+}
+
+export interface AuthorizeOptions {
+  // Also require the second factor, for the tools of sensitive subagents
+  secondFactor?: boolean;
+}
+
+/*
+Return the verified customer ID a tool may act for. `requestedCustomerId` is the customer the LLM asked for,
+if any: it must be the verified customer. Throws when the call isn't authorized; in a tool, the ToolNode
+returns the error to the agent.
+*/
+export function authorizeCustomer(
+  tool: string,
+  requestedCustomerId?: string | null,
+  config?: LangGraphRunnableConfig,
+  options: AuthorizeOptions = {},
+): string {
+  const verifiedCustomerId = getVerifiedCustomerId(config);
+  const requested = requestedCustomerId?.toString().trim() || null;
+
+  if (!verifiedCustomerId) {
+    logAuthorizationDenial({ tool, verified_customer_id: null, requested_customer_id: requested, reason: 'no verified customer' });
+    throw new Error('Not authorized: the customer has not verified their account yet.');
+  }
+  if (requested && requested !== verifiedCustomerId) {
+    logAuthorizationDenial({ tool, verified_customer_id: verifiedCustomerId, requested_customer_id: requested, reason: 'another customer' });
+    throw new Error(`Not authorized: the customer can only access their own account, not customer ${requested}.`);
+  }
+  if (options.secondFactor && !getVerifiedState(config).second_factor_verified) {
+    logAuthorizationDenial({ tool, verified_customer_id: verifiedCustomerId, requested_customer_id: requested, reason: 'no second factor' });
+    throw new Error('Not authorized: the customer has to confirm their last name or postal code before accessing their account.');
+  }
+  return verifiedCustomerId;
+}
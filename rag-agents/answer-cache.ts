@@ -0,0 +1,125 @@
+import { Document } from '@langchain/core/documents';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { Citation, FlaggedSentence } from './citations';
+import { DEFAULT_INDEX_PATH, closeVectorIndex, insertCachedAnswer, loadCachedAnswers, openVectorIndex } from './vector-index';
+import { recordCall } from '../shared/cassette';
+
+/* READ
+Many users ask the same questions, in slightly different words, and every one of them pays for retrieval,
+grading every document, generation and hallucination grading.
+
+The answer cache remembers graded answers. It embeds each incoming question with the same embedding model
+as the index, and if a cached question is similar enough (cosine similarity of at least `answer_cache_threshold`),
+the graph returns the cached answer and its documents instead of running the pipeline.
+
+An answer also depends on the chat model that wrote it and the metadata filter its documents were retrieved with,
+so every answer is stored with a `scope` naming them (see `check_answer_cache` in ```rag-agents/rag-nodes.ts```),
+and a lookup only returns answers of the same scope.
+
+The cache lives in the index file, next to the chunks the answers were generated from, and is cleared
+whenever a sync changes the indexed chunks (see ```rag-agents/vector-index.ts```).
+
+Lookups and stores go through the active cassette (see ```shared/cassette.ts```): a replay gets the hits and misses
+of the recording, whatever the index file holds now, and doesn't write to it.
+*/
+
+export const ANSWER_CACHE_THRESHOLD = 0.95; // answer_cache_threshold
+// Question embeddings kept between a lookup and the store of its answer
+const MAX_QUESTION_EMBEDDINGS = 100;
+
+export interface CachedAnswer {
+  question: string;
+  // The model and filter that produced the answer, ex. '{"model":{...},"metadata_filter":null}'
+  scope: string;
+  generation: string;
+  citations: Citation[];
+  flagged_sentences: FlaggedSentence[];
+  documents: Document[];
+}
+
+export interface AnswerCacheHit {
+  answer: CachedAnswer;
+  similarity: number;
+}
+
+export interface AnswerCacheOptions {
+  // Must be the embedding model of the index
+  embeddings: EmbeddingsInterface;
+  // The index file holding the cache, defaults to `RAG_INDEX_PATH` or .rag-index/langgraph-docs.sqlite
+  indexPath?: string;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class AnswerCache {
+  private embeddings: EmbeddingsInterface;
+  private indexPath: string;
+  // The embedding of the latest questions looked up, so storing their answer doesn't embed them again.
+  // Most lookups are never followed by a store (hits, graphs that don't store), so only the latest are kept
+  private questionEmbeddings = new Map<string, number[]>();
+
+  constructor(options: AnswerCacheOptions) {
+    this.embeddings = options.embeddings;
+    this.indexPath = options.indexPath ?? DEFAULT_INDEX_PATH;
+  }
+
+  private async embedQuestion(question: string): Promise<number[]> {
+    const embedding = this.questionEmbeddings.get(question) ?? await this.embeddings.embedQuery(question);
+    // Re-inserting moves the question to the end, so the first key is always the least recently used
+    this.questionEmbeddings.delete(question);
+    this.questionEmbeddings.set(question, embedding);
+    if (this.questionEmbeddings.size > MAX_QUESTION_EMBEDDINGS) {
+      this.questionEmbeddings.delete(this.questionEmbeddings.keys().next().value!);
+    }
+    return embedding;
+  }
+
+  // The most similar cached answer of the same scope, if it is similar enough
+  async lookup(question: string, scope: string, threshold: number = ANSWER_CACHE_THRESHOLD): Promise<AnswerCacheHit | null> {
+    const best = await recordCall('answer_cache_lookup', { question, scope, threshold }, async () => {
+      const embedding = await this.embedQuestion(question);
+      const index = await openVectorIndex(this.indexPath);
+      try {
+        let best: AnswerCacheHit | null = null;
+        for (const row of await loadCachedAnswers(index)) {
+          const answer: CachedAnswer = JSON.parse(row.answer);
+          if (answer.scope !== scope) {
+            continue;
+          }
+          const similarity = cosineSimilarity(embedding, row.embedding);
+          if (similarity >= threshold && (!best || similarity > best.similarity)) {
+            best = { answer, similarity };
+          }
+        }
+        return best;
+      } finally {
+        await closeVectorIndex(index);
+      }
+    });
+    // Documents are stored (and recorded) as plain objects
+    return best && { ...best, answer: { ...best.answer, documents: best.answer.documents.map(doc => new Document(doc)) } };
+  }
+
+  async store(answer: CachedAnswer): Promise<void> {
+    await recordCall('answer_cache_store', { question: answer.question, scope: answer.scope }, async () => {
+      const embedding = await this.embedQuestion(answer.question);
+      this.questionEmbeddings.delete(answer.question);
+      const index = await openVectorIndex(this.indexPath);
+      try {
+        await insertCachedAnswer(index, { question: answer.question, embedding, answer: JSON.stringify(answer) });
+      } finally {
+        await closeVectorIndex(index);
+      }
+    });
+  }
+}
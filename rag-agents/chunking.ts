@@ -0,0 +1,227 @@
+import { createHash } from 'crypto';
+import { BaseRetriever, BaseRetrieverInput } from '@langchain/core/retrievers';
+import { Document } from '@langchain/core/documents';
+import { CallbackManagerForRetrieverRun } from '@langchain/core/callbacks/manager';
+
+/* READ
+Splitting documents every N characters cuts code samples and sentences in half, which
+makes the chunks hard to understand for both the retriever and the graders.
+
+Our corpus is Markdown (HTML pages are converted to Markdown when loaded), so instead we
+split along its structure:
+- Headings start a new section, and every chunk records its heading path,
+  ex. "Persistence > Checkpointers"
+- Chunks are packed from whole paragraphs, and only split at sentence boundaries
+  when a single paragraph is too long
+- Fenced code blocks are never split, even if they are longer than the chunk size
+
+Every chunk also carries the full text of its enclosing section. This enables parent-document
+retrieval: we match the question against small, precise chunks, but hand the LLM the whole section.
+*/
+
+export interface StructuredSplitterOptions {
+  // Target chunk size in characters; code blocks may exceed it
+  chunkSize: number;
+}
+
+interface Block {
+  type: 'heading' | 'code' | 'text';
+  text: string;
+  level?: number;
+}
+
+interface Section {
+  headingPath: string[];
+  heading?: string;
+  level?: number;
+  blocks: Block[];
+}
+
+const DEFAULT_SPLITTER_OPTIONS: StructuredSplitterOptions = { chunkSize: 1000 };
+
+function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = markdown.split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) {
+      blocks.push({ type: 'text', text: paragraph.join('\n').trim() });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(/^\s*(```|~~~)/);
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+
+    if (fence) {
+      flushParagraph();
+      const codeLines = [line];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      // Close the fence even if the document forgot to
+      codeLines.push(i < lines.length ? lines[i] : fence[1]);
+      blocks.push({ type: 'code', text: codeLines.join('\n') });
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', text: heading[2], level: heading[1].length });
+    } else if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  return blocks;
+}
+
+function groupSections(blocks: Block[]): Section[] {
+  const sections: Section[] = [{ headingPath: [], blocks: [] }];
+  const headingStack: { level: number; text: string }[] = [];
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      while (headingStack.length && headingStack[headingStack.length - 1].level >= block.level!) {
+        headingStack.pop();
+      }
+      headingStack.push({ level: block.level!, text: block.text });
+      sections.push({ headingPath: headingStack.map(h => h.text), heading: block.text, level: block.level, blocks: [] });
+    } else {
+      sections[sections.length - 1].blocks.push(block);
+    }
+  }
+  return sections.filter(section => section.blocks.length > 0);
+}
+
+// Split an over-long paragraph at sentence boundaries, and at whitespace as a last resort
+function splitLongText(text: string, chunkSize: number): string[] {
+  if (text.length <= chunkSize) {
+    return [text];
+  }
+  const pieces: string[] = [];
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    if (sentence.length <= chunkSize) {
+      pieces.push(sentence);
+      continue;
+    }
+    let current = '';
+    for (const word of sentence.split(/\s+/)) {
+      if (current && current.length + 1 + word.length > chunkSize) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${word}` : word;
+    }
+    if (current) pieces.push(current);
+  }
+  return pieces;
+}
+
+// Pack whole blocks into chunks; pieces of a split paragraph are re-joined with a space
+function packBlocks(blocks: Block[], chunkSize: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  const append = (piece: string, separator: string) => {
+    if (current && current.length + separator.length + piece.length > chunkSize) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}${separator}${piece}` : piece;
+  };
+
+  for (const block of blocks) {
+    const pieces = block.type === 'code' ? [block.text] : splitLongText(block.text, chunkSize);
+    pieces.forEach((piece, index) => append(piece, index === 0 ? '\n\n' : ' '));
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+export function splitDocumentByStructure(
+  doc: Document,
+  options: Partial<StructuredSplitterOptions> = {}
+): Document[] {
+  const { chunkSize } = { ...DEFAULT_SPLITTER_OPTIONS, ...options };
+  const source = String(doc.metadata.source ?? '');
+  const sections = groupSections(parseBlocks(doc.pageContent));
+
+  return sections.flatMap((section, sectionIndex) => {
+    const headingPath = section.headingPath.join(' > ');
+    const sectionId = createHash('sha256')
+      .update(`${source}\u0000${sectionIndex}\u0000${headingPath}`)
+      .digest('hex')
+      .slice(0, 16);
+    const parentContent = [
+      ...(section.heading ? [`${'#'.repeat(section.level!)} ${section.heading}`] : []),
+      ...section.blocks.map(block => block.text),
+    ].join('\n\n');
+
+    return packBlocks(section.blocks, chunkSize).map((chunk, chunkIndex) => new Document({
+      pageContent: chunk,
+      metadata: {
+        ...doc.metadata,
+        heading_path: headingPath,
+        section_id: sectionId,
+        chunk_index: chunkIndex,
+        parent_content: parentContent,
+      },
+    }));
+  });
+}
+
+export function splitDocumentsByStructure(
+  docs: Document[],
+  options: Partial<StructuredSplitterOptions> = {}
+): Document[] {
+  return docs.flatMap(doc => splitDocumentByStructure(doc, options));
+}
+
+export interface ParentSectionRetrieverInput extends BaseRetrieverInput {
+  retriever: BaseRetriever;
+  // Maximum number of sections to return
+  k?: number;
+}
+
+/*
+Retrieve small chunks, then return their enclosing sections. Chunks from the same section
+are collapsed into one result, ranked by the best-matching chunk. Chunks indexed before
+sections were tracked are returned unchanged.
+*/
+export class ParentSectionRetriever extends BaseRetriever {
+  lc_namespace = ['rag-agents', 'retrievers', 'parent_section'];
+
+  retriever: BaseRetriever;
+  k: number;
+
+  constructor(fields: ParentSectionRetrieverInput) {
+    super(fields);
+    this.retriever = fields.retriever;
+    this.k = fields.k ?? 4;
+  }
+
+  async _getRelevantDocuments(query: string, runManager?: CallbackManagerForRetrieverRun): Promise<Document[]> {
+    const chunks = await this.retriever.invoke(query, runManager?.getChild());
+    const sections = new Map<string, Document>();
+
+    for (const chunk of chunks) {
+      const { parent_content: parentContent, ...metadata } = chunk.metadata;
+      const key = metadata.section_id ?? chunk.pageContent;
+      const existing = sections.get(key);
+      if (existing) {
+        existing.metadata.matched_chunks.push(chunk.pageContent);
+        continue;
+      }
+      sections.set(key, new Document({
+        pageContent: parentContent ?? chunk.pageContent,
+        metadata: { ...metadata, matched_chunks: [chunk.pageContent] },
+      }));
+    }
+    return [...sections.values()].slice(0, this.k);
+  }
+}
@@ -0,0 +1,136 @@
+import { Document } from '@langchain/core/documents';
+import { z } from 'zod';
+
+/* READ
+A bare answer doesn't tell our users which documentation page it came from.
+Instead, we number the retrieved documents in the prompt, ask the LLM to cite them inline
+as [1], [2], ..., and have it return a quoted span for each citation using structured output.
+
+We then map each citation back to its `Document`, so the graph state can carry a structured
+list of citations (source URL, heading, quoted span) alongside the answer.
+*/
+
+export interface Citation {
+  id: number;
+  source: string;
+  title: string;
+  heading: string;
+  quote: string;
+  // Whether the quote actually appears in the cited document
+  quote_found: boolean;
+}
+
+export interface FlaggedSentence {
+  sentence: string;
+  reason: 'uncited' | 'unsupported';
+}
+
+export const CitedAnswerSchema = z.object({
+  answer: z.string().describe("The answer, citing the numbered context it uses inline, ex. 'Use a checkpointer [1].'"),
+  citations: z.array(z.object({
+    id: z.number().describe('The number of the cited context document'),
+    quote: z.string().describe('A short span copied verbatim from the cited document that supports the answer'),
+  })).describe('One entry per context document cited in the answer'),
+});
+
+export type CitedAnswer = z.infer<typeof CitedAnswerSchema>;
+
+export const CITATION_INSTRUCTIONS = `Cite the context you use inline with its number in square brackets, ex. [1] or [1][3].
+Every sentence that relies on the context must have a citation.
+For each cited context, also return a short quote copied verbatim from it.`;
+
+// Number each document so that the LLM can cite it, ex. "[1] Persistence > Checkpointers (https://...)"
+export function formatDocumentsForCitation(documents: Document[]): string {
+  return documents.map((doc, index) => {
+    const heading = doc.metadata.heading_path || doc.metadata.title || '';
+    const source = doc.metadata.source ? ` (${doc.metadata.source})` : '';
+    return `[${index + 1}] ${heading}${source}\n${doc.pageContent}`;
+  }).join('\n\n');
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Map the LLM's citations back to the retrieved documents, dropping ids that don't exist
+export function buildCitations(documents: Document[], citedAnswer: CitedAnswer): Citation[] {
+  const citations: Citation[] = [];
+  for (const { id, quote } of citedAnswer.citations) {
+    const doc = documents[id - 1];
+    if (!doc) {
+      continue;
+    }
+    citations.push({
+      id,
+      source: String(doc.metadata.source ?? ''),
+      title: String(doc.metadata.title ?? ''),
+      heading: String(doc.metadata.heading_path ?? ''),
+      quote,
+      quote_found: normalizeWhitespace(doc.pageContent).includes(normalizeWhitespace(quote)),
+    });
+  }
+  return citations;
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?](?:\s*\[\d+\])*)\s+(?=[A-Z`"'(])/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+export function isCited(sentence: string): boolean {
+  return /\[\d+\]/.test(sentence);
+}
+
+/*
+The hallucination grader judges the answer sentence by sentence, so that we can flag
+exactly which sentences are unsupported instead of returning a single boolean.
+*/
+export const GradeSentencesSchema = z.object({
+  sentences: z.array(z.object({
+    sentence: z.string().describe('A sentence from the LLM generation, copied verbatim'),
+    supported: z.boolean().describe('The sentence is grounded in / supported by the set of facts, true or false'),
+  })).describe('One entry per sentence in the LLM generation'),
+});
+
+export type SentenceGrades = z.infer<typeof GradeSentencesSchema>;
+
+// Combine the grader's verdicts with our own check for sentences missing a citation
+export function flagSentences(generation: string, grades: SentenceGrades): FlaggedSentence[] {
+  const flags: FlaggedSentence[] = grades.sentences
+    .filter(grade => !grade.supported)
+    .map(grade => ({ sentence: grade.sentence, reason: 'unsupported' as const }));
+
+  for (const sentence of splitSentences(generation)) {
+    if (!isCited(sentence) && !flags.some(flag => flag.sentence === sentence)) {
+      flags.push({ sentence, reason: 'uncited' });
+    }
+  }
+  return flags;
+}
+
+// One generation and the grader's verdicts on it, kept so we can fall back to the best attempt
+export interface GenerationAttempt {
+  attempt: number;
+  generation: string;
+  citations: Citation[];
+  flagged_sentences: FlaggedSentence[];
+  // Share of graded sentences the grader found supported, from 0 to 1
+  supported_ratio: number;
+}
+
+export function supportedRatio(grades: SentenceGrades): number {
+  if (!grades.sentences.length) {
+    return 0;
+  }
+  return grades.sentences.filter(grade => grade.supported).length / grades.sentences.length;
+}
+
+// Pick the attempt with the most supported sentences, preferring the earliest on ties
+export function selectBestAttempt(attempts: GenerationAttempt[]): GenerationAttempt | undefined {
+  return attempts.reduce<GenerationAttempt | undefined>(
+    (best, attempt) => (!best || attempt.supported_ratio > best.supported_ratio ? attempt : best),
+    undefined
+  );
+}
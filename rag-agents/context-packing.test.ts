@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Document } from '@langchain/core/documents';
+import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
+import { packContext } from './context-packing';
+
+// One token per word keeps the budgets readable
+const countTokens = async (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const MESSAGES = [
+  new HumanMessage({ id: '1', content: 'What is a checkpointer?' }),
+  new AIMessage({ id: '2', content: 'A checkpointer saves a snapshot of the state at every step.' }),
+  new HumanMessage({ id: '3', content: 'And a store?' }),
+  new AIMessage({ id: '4', content: 'A store keeps data across threads.' }),
+];
+
+function countingSummarizer() {
+  const calls: BaseMessage[][] = [];
+  const summarize = async (messages: BaseMessage[]) => {
+    calls.push(messages);
+    return 'The user asked about checkpointers.';
+  };
+  return { calls, summarize };
+}
+
+test('older turns are summarized and returned to be saved as the running summary', async () => {
+  const { calls, summarize } = countingSummarizer();
+  // Room for the base prompt, the last turn and a summary, but not the first turn
+  const packed = await packContext({
+    basePrompt: 'Answer the question.',
+    documents: [],
+    messages: MESSAGES,
+    budget: 170,
+    countTokens: async text => text.includes('checkpointer saves') ? 200 : countTokens(text),
+    summarize,
+  });
+
+  assert.equal(calls.length, 1);
+  assert.equal(packed.summary, 'The user asked about checkpointers.');
+  assert.deepEqual(packed.summarizedMessages.map(message => message.id), ['1', '2']);
+  assert.equal(packed.report.turns_included, 1);
+  assert.equal(packed.report.summarized_turns, 1);
+  assert.ok(packed.conversation.startsWith('Summary of earlier turns: The user asked about checkpointers.'));
+});
+
+test('older turns are not summarized when the documents used the budget', async () => {
+  const { calls, summarize } = countingSummarizer();
+  const document = new Document({ pageContent: 'word '.repeat(40), metadata: { source: 'https://example.com' } });
+  const packed = await packContext({
+    basePrompt: 'Answer the question.',
+    documents: [document],
+    messages: MESSAGES,
+    summary: 'Earlier, the user said hello.',
+    budget: 70,
+    countTokens,
+    summarize,
+  });
+
+  assert.equal(calls.length, 0);
+  assert.equal(packed.summary, undefined);
+  assert.deepEqual(packed.summarizedMessages, []);
+  // The running summary still goes in as is when it fits
+  assert.equal(packed.report.summary_included, true);
+  assert.equal(packed.report.summarized_turns, 0);
+});
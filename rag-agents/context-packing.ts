@@ -0,0 +1,178 @@
+import { Document } from '@langchain/core/documents';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { BaseMessage, HumanMessage, getBufferString } from '@langchain/core/messages';
+import { formatDocumentsForCitation } from './citations';
+
+/* READ
+Joining every retrieved document and the whole chat history into the prompt works for a demo,
+but long conversations (and many or long documents) eventually overflow the model's context window.
+
+Instead, we pack the prompt into a token budget, counted with the tokenizer of the model answering the run,
+in priority order (our configurable `llm` counts tokens for the model selected in the run's config):
+
+1. The prompt instructions and the question always go in.
+2. The documents, best ranked first. A document that doesn't fit is dropped, smaller ones may still fit.
+3. The most recent conversation turns, newest first.
+4. The older turns that don't fit are summarized together with the running summary of the thread
+   (see Conversation Summary in ```rag-agents/rag-nodes.ts```), and the summary goes in if it fits.
+
+Summarizing costs an LLM call, so we only do it when the remaining budget can hold a summary,
+otherwise the running summary goes in as is (if it fits) and the older turns are left out of this prompt.
+The new summary is returned with the messages it covers, so the generate node can save it as the running summary
+and remove those messages, like `summarize_conversation` does: retries and later turns reuse it instead of
+summarizing the same turns again.
+
+Everything that was left out is reported in State as `context_report`, so a truncated answer can be
+traced back to what the LLM didn't see. Set the budget per run with `{ configurable: { context_token_budget } }`.
+*/
+
+export const CONTEXT_TOKEN_BUDGET = 6000; // context_token_budget
+// Room needed for a summary of at most three sentences, below it we don't summarize
+const SUMMARY_TOKEN_ESTIMATE = 150;
+
+export interface DroppedDocument {
+  source: string;
+  heading: string;
+  tokens: number;
+}
+
+export interface ContextReport {
+  token_budget: number;
+  tokens_used: number;
+  documents_included: number;
+  dropped_documents: DroppedDocument[];
+  turns_included: number;
+  // Whether the summary of earlier turns fit
+  summary_included: boolean;
+  summarized_turns: number;
+  dropped_turns: number;
+}
+
+export interface PackContextInput {
+  // The prompt with the question but without documents and conversation, which must always fit
+  basePrompt: string;
+  // In priority order, ex. sorted by the reranker
+  documents: Document[];
+  messages: BaseMessage[];
+  // The running summary of the turns before `messages`, if any
+  summary?: string;
+  budget: number;
+  countTokens: (text: string) => Promise<number>;
+  // Summarize the turns that don't fit verbatim, without it they are dropped
+  summarize?: (messages: BaseMessage[], previousSummary?: string) => Promise<string>;
+}
+
+export interface PackedContext {
+  documents: Document[];
+  conversation: string;
+  report: ContextReport;
+  // The new running summary and the messages folded into it, when older turns were summarized
+  summary?: string;
+  summarizedMessages: BaseMessage[];
+}
+
+// A turn starts with each human message, ex. [human, ai], [human, ai], ...
+function splitTurns(messages: BaseMessage[]): BaseMessage[][] {
+  const turns: BaseMessage[][] = [];
+  for (const message of messages) {
+    if (message.getType() === 'human' || !turns.length) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+export async function packContext(input: PackContextInput): Promise<PackedContext> {
+  const { basePrompt, budget, countTokens } = input;
+  let used = await countTokens(basePrompt);
+
+  // Documents, in priority order
+  const documents: Document[] = [];
+  const droppedDocuments: DroppedDocument[] = [];
+  for (const doc of input.documents) {
+    const tokens = await countTokens(formatDocumentsForCitation([doc]));
+    if (used + tokens <= budget) {
+      documents.push(doc);
+      used += tokens;
+    } else {
+      droppedDocuments.push({
+        source: String(doc.metadata.source ?? ''),
+        heading: String(doc.metadata.heading_path ?? doc.metadata.title ?? ''),
+        tokens,
+      });
+    }
+  }
+
+  // Recent turns, newest first, until one doesn't fit
+  const turns = splitTurns(input.messages);
+  const recentTurns: BaseMessage[][] = [];
+  for (let index = turns.length - 1; index >= 0; index--) {
+    const tokens = await countTokens(getBufferString(turns[index]));
+    if (used + tokens > budget) break;
+    recentTurns.unshift(turns[index]);
+    used += tokens;
+  }
+
+  // Older turns, summarized into the running summary if a summary can still fit
+  const olderTurns = turns.slice(0, turns.length - recentTurns.length);
+  const summarizeOlder = olderTurns.length > 0 && !!input.summarize && budget - used >= SUMMARY_TOKEN_ESTIMATE;
+  const summaryText = summarizeOlder
+    ? await input.summarize!(olderTurns.flat(), input.summary)
+    : input.summary ?? '';
+  let summary = '';
+  if (summaryText) {
+    const candidate = `Summary of earlier turns: ${summaryText}`;
+    const tokens = await countTokens(candidate);
+    if (used + tokens <= budget) {
+      summary = candidate;
+      used += tokens;
+    }
+  }
+  const summarizedTurns = summarizeOlder ? olderTurns.length : 0;
+
+  const conversation = [summary, getBufferString(recentTurns.flat())].filter(Boolean).join('\n');
+  const report: ContextReport = {
+    token_budget: budget,
+    tokens_used: used,
+    documents_included: documents.length,
+    dropped_documents: droppedDocuments,
+    turns_included: recentTurns.length,
+    summary_included: !!summary,
+    summarized_turns: summarizedTurns,
+    dropped_turns: olderTurns.length - summarizedTurns,
+  };
+  if (droppedDocuments.length || olderTurns.length) {
+    console.log(`---CONTEXT PACKED: ${droppedDocuments.length} DOCUMENTS DROPPED, ${report.summarized_turns} TURNS SUMMARIZED, ${report.dropped_turns} TURNS DROPPED---`);
+  }
+  return {
+    documents,
+    conversation,
+    report,
+    summary: summarizeOlder ? summaryText : undefined,
+    summarizedMessages: summarizeOlder ? olderTurns.flat() : [],
+  };
+}
+
+const SUMMARIZE_TURNS_PROMPT = `Summarize the following conversation between a user and an assistant about LangGraph
+in at most three sentences. Keep the facts, names and decisions that later questions may refer to.
+If there is a summary of even earlier turns, fold it into your summary.
+
+Summary of Earlier Turns:
+{summary}
+
+Conversation:
+{conversation}
+
+Summary:`;
+
+export function createTurnSummarizer(llm: BaseChatModel) {
+  return async (messages: BaseMessage[], previousSummary?: string): Promise<string> => {
+    const prompt = SUMMARIZE_TURNS_PROMPT
+      .replace('{summary}', previousSummary || 'None')
+      .replace('{conversation}', getBufferString(messages));
+    const response = await llm.invoke([new HumanMessage(prompt)]);
+    return (response.content as string).trim();
+  };
+}
@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Document } from '@langchain/core/documents';
+import { PuppeteerWebBaseLoader } from '@langchain/community/document_loaders/web/puppeteer';
+
+/* READ
+Our RAG agents need a corpus of documents to index. By default we crawl a list of
+LangGraph documentation URLs with Puppeteer, but that requires a browser and network access.
+
+A corpus is described by a list of sources, and every source type produces the same `Document[]`:
+- urls: crawl web pages with Puppeteer
+- directory: read local Markdown (.md), HTML (.html) and plain-text (.txt) files
+- jsonl: read a "pre-crawled" dump, one JSON object per line
+
+Each document keeps its `source` (URL or file path) and `title` in metadata.
+HTML is converted to Markdown-like text so that every source looks the same downstream.
+*/
+
+export type CorpusSource =
+  | { type: 'urls'; urls: string[] }
+  | { type: 'directory'; path: string; extensions?: string[] }
+  | { type: 'jsonl'; path: string };
+
+/*
+A line of a pre-crawled JSONL dump. Only one of `content` or `html` is needed,
+and `url` takes precedence over `source` when both are present.
+*/
+export interface PreCrawledRecord {
+  url?: string;
+  source?: string;
+  title?: string;
+  content?: string;
+  html?: string;
+  metadata?: Record<string, any>;
+}
+
+const DEFAULT_EXTENSIONS = ['.md', '.markdown', '.html', '.htm', '.txt'];
+
+// Decode the handful of HTML entities that show up in documentation pages
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, '');
+}
+
+export function extractHtmlTitle(html: string): string | undefined {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  if (titleMatch) {
+    return decodeEntities(stripTags(titleMatch[1])).trim();
+  }
+  const h1Match = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+  if (h1Match) {
+    return decodeEntities(stripTags(h1Match[1])).trim();
+  }
+  return undefined;
+}
+
+/*
+Convert an HTML page into Markdown-like text. This is intentionally simple:
+headings become `#` lines, `<pre>` blocks become fenced code blocks, list items become
+bullets, and every other tag is dropped.
+*/
+export function htmlToMarkdown(html: string): string {
+  const codeBlocks: string[] = [];
+  let text = html
+    .replace(/<(script|style|svg|noscript|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  // Pull code blocks out first so that the tag stripping below leaves them untouched
+  text = text.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, code) => {
+    codeBlocks.push(decodeEntities(stripTags(code)).replace(/\n+$/, ''));
+    return `\n\n@@CODE_BLOCK_${codeBlocks.length - 1}@@\n\n`;
+  });
+
+  text = text
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, heading) =>
+      `\n\n${'#'.repeat(Number(level))} ${stripTags(heading).replace(/\s+/g, ' ').replace(/¶/g, '').trim()}\n\n`)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, (_, code) => `\`${stripTags(code)}\``)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|article|ul|ol|table|tr|blockquote)>/gi, '\n\n');
+
+  text = decodeEntities(stripTags(text))
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return text.replace(/@@CODE_BLOCK_(\d+)@@/g, (_, index) => '```\n' + codeBlocks[Number(index)] + '\n```');
+}
+
+function extractMarkdownTitle(markdown: string): string | undefined {
+  const frontMatter = markdown.match(/^---\n([\s\S]*?)\n---/);
+  const frontMatterTitle = frontMatter?.[1].match(/^title:\s*["']?(.+?)["']?\s*$/m);
+  if (frontMatterTitle) {
+    return frontMatterTitle[1];
+  }
+  const heading = markdown.match(/^#\s+(.+)$/m);
+  return heading ? heading[1].trim() : undefined;
+}
+
+function isHtml(filePathOrUrl: string): boolean {
+  return /\.html?$/i.test(filePathOrUrl);
+}
+
+// Load documents by crawling each URL with Puppeteer
+async function loadUrlSource(urls: string[]): Promise<Document[]> {
+  const docsPromises = urls.map(async (url, index) => {
+    console.log(`Loading document ${index + 1}/${urls.length}: ${url}`);
+    try {
+      const docs = await new PuppeteerWebBaseLoader(url).load();
+      console.log(`Successfully loaded ${docs.length} documents from ${url}`);
+      return docs.map(doc => new Document({
+        pageContent: htmlToMarkdown(doc.pageContent),
+        metadata: {
+          ...doc.metadata,
+          source: url,
+          title: extractHtmlTitle(doc.pageContent) ?? url,
+          source_type: 'url',
+        },
+      }));
+    } catch (error) {
+      console.error(`Failed to load ${url}:`, error);
+      return [];
+    }
+  });
+
+  const docsArrays = await Promise.all(docsPromises);
+  return docsArrays.flat();
+}
+
+function listFiles(dir: string, extensions: string[]): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(entryPath, extensions));
+    } else if (extensions.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+// Load every Markdown, HTML and plain-text file below a local directory
+async function loadDirectorySource(dir: string, extensions = DEFAULT_EXTENSIONS): Promise<Document[]> {
+  const files = listFiles(dir, extensions);
+  console.log(`Loading ${files.length} files from ${dir}`);
+
+  return files.map(filePath => {
+    const raw = fs.readFileSync(filePath, 'utf8');
+    const fallbackTitle = path.basename(filePath, path.extname(filePath));
+    if (isHtml(filePath)) {
+      return new Document({
+        pageContent: htmlToMarkdown(raw),
+        metadata: { source: filePath, title: extractHtmlTitle(raw) ?? fallbackTitle, source_type: 'file' },
+      });
+    }
+    const title = filePath.endsWith('.txt') ? fallbackTitle : extractMarkdownTitle(raw) ?? fallbackTitle;
+    return new Document({
+      pageContent: raw,
+      metadata: { source: filePath, title, source_type: 'file' },
+    });
+  });
+}
+
+// Load a pre-crawled JSONL dump, skipping (and reporting) malformed lines
+async function loadJsonlSource(filePath: string): Promise<Document[]> {
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+  const docs: Document[] = [];
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let record: PreCrawledRecord;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      console.error(`Skipping malformed line ${index + 1} in ${filePath}:`, error);
+      return;
+    }
+
+    const source = record.url ?? record.source;
+    if (!source || (record.content === undefined && record.html === undefined)) {
+      console.error(`Skipping line ${index + 1} in ${filePath}: expected a url/source and content/html`);
+      return;
+    }
+
+    const pageContent = record.html !== undefined ? htmlToMarkdown(record.html) : record.content!;
+    const title = record.title
+      ?? (record.html !== undefined ? extractHtmlTitle(record.html) : extractMarkdownTitle(pageContent))
+      ?? source;
+    docs.push(new Document({
+      pageContent,
+      metadata: { ...record.metadata, source, title, source_type: 'jsonl' },
+    }));
+  });
+
+  console.log(`Loaded ${docs.length} documents from ${filePath}`);
+  return docs;
+}
+
+export async function loadCorpus(sources: CorpusSource[]): Promise<Document[]> {
+  const docsArrays = await Promise.all(sources.map(source => {
+    switch (source.type) {
+      case 'urls':
+        return loadUrlSource(source.urls);
+      case 'directory':
+        return loadDirectorySource(source.path, source.extensions);
+      case 'jsonl':
+        return loadJsonlSource(source.path);
+    }
+  }));
+  return docsArrays.flat();
+}
+
+/*
+Pick the corpus from the environment. Setting `RAG_CORPUS_DIR` and/or `RAG_CORPUS_JSONL`
+(see .env.example) replaces the default URL crawl, which is what you want on an
+air-gapped machine or in CI.
+*/
+export function getCorpusSourcesFromEnv(defaultUrls: string[]): CorpusSource[] {
+  const sources: CorpusSource[] = [];
+  if (process.env.RAG_CORPUS_DIR) {
+    sources.push({ type: 'directory', path: process.env.RAG_CORPUS_DIR });
+  }
+  if (process.env.RAG_CORPUS_JSONL) {
+    sources.push({ type: 'jsonl', path: process.env.RAG_CORPUS_JSONL });
+  }
+  if (!sources.length) {
+    sources.push({ type: 'urls', urls: defaultUrls });
+  }
+  return sources;
+}
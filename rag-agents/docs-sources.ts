@@ -0,0 +1,353 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import axios from 'axios';
+import sqlite3 from 'sqlite3';
+import { Document } from '@langchain/core/documents';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { extractHtmlTitle, htmlToMarkdown } from './corpus';
+import { splitDocumentsByStructure } from './chunking';
+import {
+  SourceRecord,
+  deleteSource,
+  deleteSourceChunks,
+  listSources,
+  replaceSourceChunks,
+  upsertSource,
+} from './vector-index';
+
+/* READ
+A hand-maintained list of URLs goes out of date as soon as the docs are reorganized. Instead, the pages
+of the index can be managed as a registry of sources, stored in the index file next to their chunks:
+
+- Discovery finds the pages to register, from a sitemap or by crawling links below a root URL,
+  keeping only URLs that match the include patterns and none of the exclude patterns.
+- Every source records when it was last fetched, and the ETag / Last-Modified validators the server sent.
+- A refresh only re-fetches stale sources (not fetched within `maxAgeHours`), and sends the validators back,
+  so a page that didn't change costs a `304 Not Modified` instead of a download and new embeddings.
+  Pages that did change only have their own chunks replaced.
+
+Everything can also run against a local mirror directory instead of the network, with one file per page at
+`<mirror>/<host>/<path>` (ex. `docs-mirror/langchain-ai.github.io/langgraph/concepts/low_level/index.html`).
+Mirror files get an ETag from their content and a Last-Modified from their modification time, so freshness
+tracking behaves as it does over HTTP.
+
+The command-line tool is ```rag-agents/ingest.ts```.
+*/
+
+export const DEFAULT_MAX_AGE_HOURS = 24;
+export const DEFAULT_MAX_CRAWL_PAGES = 200;
+const FETCH_TIMEOUT_MS = 30000;
+
+export interface FetchOptions {
+  // Read pages from this mirror directory instead of the network, defaults to `RAG_DOCS_MIRROR`
+  mirrorDir?: string;
+}
+
+// Include / exclude patterns are globs matched against the whole URL, where `*` matches anything
+export interface UrlFilter {
+  include?: string[];
+  exclude?: string[];
+}
+
+export type PageFetch =
+  | { status: 'not_modified' }
+  | { status: 'fetched'; body: string; etag: string | null; last_modified: string | null };
+
+export interface RefreshOptions extends FetchOptions {
+  // Only refresh these sources, defaults to every registered source
+  urls?: string[];
+  // Sources fetched more recently than this are fresh and skipped
+  maxAgeHours?: number;
+  // Re-fetch every source, without sending validators
+  force?: boolean;
+  // Target chunk size in characters for the structure-aware splitter
+  chunkSize?: number;
+}
+
+export interface RefreshResult {
+  url: string;
+  status: 'fresh' | 'not_modified' | 'fetched' | 'error';
+  added?: number;
+  removed?: number;
+  error?: string;
+}
+
+function resolveMirrorDir(options: FetchOptions): string | undefined {
+  return options.mirrorDir ?? process.env.RAG_DOCS_MIRROR;
+}
+
+// Drop the fragment, which never changes the page
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.href;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\?]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+export function matchesFilter(url: string, filter: UrlFilter = {}): boolean {
+  const included = !filter.include?.length || filter.include.some(glob => globToRegExp(glob).test(url));
+  const excluded = (filter.exclude ?? []).some(glob => globToRegExp(glob).test(url));
+  return included && !excluded;
+}
+
+// The mirror file of a URL: directory URLs map to their index.html, extensionless paths may also be .html files
+function findMirrorFile(url: string, mirrorDir: string): string {
+  const { hostname, pathname } = new URL(url);
+  const base = path.join(mirrorDir, hostname, decodeURIComponent(pathname));
+  const candidates = pathname.endsWith('/')
+    ? [path.join(base, 'index.html')]
+    : [base, `${base}.html`, path.join(base, 'index.html')];
+  const file = candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+  if (!file) {
+    throw new Error(`${url} is not in the mirror, expected ${candidates[0]}`);
+  }
+  return file;
+}
+
+function fetchFromMirror(url: string, previous: Partial<SourceRecord>, mirrorDir: string): PageFetch {
+  const file = findMirrorFile(url, mirrorDir);
+  const body = fs.readFileSync(file, 'utf8');
+  const etag = `"${createHash('sha256').update(body).digest('hex').slice(0, 16)}"`;
+  const lastModified = fs.statSync(file).mtime.toUTCString();
+
+  // Like an HTTP server, the ETag takes precedence over Last-Modified
+  const notModified = previous.etag
+    ? previous.etag === etag
+    : !!previous.last_modified && Date.parse(lastModified) <= Date.parse(previous.last_modified);
+  return notModified ? { status: 'not_modified' } : { status: 'fetched', body, etag, last_modified: lastModified };
+}
+
+/*
+Fetch a page, sending the validators of the previous fetch. If the page didn't change since,
+the server answers `304 Not Modified` and we don't download it again.
+*/
+export async function fetchPage(
+  url: string,
+  previous: Partial<SourceRecord> = {},
+  options: FetchOptions = {}
+): Promise<PageFetch> {
+  const mirrorDir = resolveMirrorDir(options);
+  if (mirrorDir) {
+    return fetchFromMirror(url, previous, mirrorDir);
+  }
+
+  const headers: Record<string, string> = {};
+  if (previous.etag) {
+    headers['If-None-Match'] = previous.etag;
+  }
+  if (previous.last_modified) {
+    headers['If-Modified-Since'] = previous.last_modified;
+  }
+  const response = await axios.get<string>(url, {
+    headers,
+    responseType: 'text',
+    timeout: FETCH_TIMEOUT_MS,
+    validateStatus: status => status === 304 || (status >= 200 && status < 300),
+  });
+  if (response.status === 304) {
+    return { status: 'not_modified' };
+  }
+  return {
+    status: 'fetched',
+    body: response.data,
+    etag: response.headers['etag'] ?? null,
+    last_modified: response.headers['last-modified'] ?? null,
+  };
+}
+
+async function fetchText(url: string, options: FetchOptions): Promise<string> {
+  const page = await fetchPage(url, {}, options);
+  // Without validators, a page is always fetched
+  return page.status === 'fetched' ? page.body : '';
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/*
+List the page URLs of a sitemap that pass the filter. A sitemap index (a sitemap of sitemaps)
+is followed into each of its sitemaps.
+*/
+export async function discoverFromSitemap(
+  sitemapUrl: string,
+  filter: UrlFilter = {},
+  options: FetchOptions = {}
+): Promise<string[]> {
+  const xml = await fetchText(sitemapUrl, options);
+  const locations = [...xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi)].map(match => decodeXmlEntities(match[1]));
+
+  if (/<sitemapindex[\s>]/i.test(xml)) {
+    const nested: string[] = [];
+    for (const location of locations) {
+      nested.push(...await discoverFromSitemap(location, filter, options));
+    }
+    return [...new Set(nested)];
+  }
+
+  const urls = locations.map(normalizeUrl).filter(url => matchesFilter(url, filter));
+  console.log(`Found ${urls.length} of ${locations.length} sitemap URLs matching the filter in ${sitemapUrl}`);
+  return [...new Set(urls)];
+}
+
+const NON_PAGE_EXTENSIONS = /\.(css|js|json|png|jpe?g|gif|svg|ico|webp|woff2?|ttf|xml|gz|zip|pdf)$/i;
+
+// Links of a page, resolved against its URL, without fragments and query strings
+function extractLinks(html: string, pageUrl: string): string[] {
+  const links: string[] = [];
+  for (const match of html.matchAll(/<a\s[^>]*href\s*=\s*["']([^"'#][^"']*)["']/gi)) {
+    try {
+      const url = new URL(decodeXmlEntities(match[1]), pageUrl);
+      url.hash = '';
+      url.search = '';
+      if ((url.protocol === 'http:' || url.protocol === 'https:') && !NON_PAGE_EXTENSIONS.test(url.pathname)) {
+        links.push(url.href);
+      }
+    } catch {
+      // Not a URL, ex. a malformed href
+    }
+  }
+  return links;
+}
+
+/*
+Crawl the pages below a root URL, breadth first, following only links that start with the root URL.
+Every page in scope is crawled, but only pages that pass the filter are returned, so an excluded
+index page can still lead to included pages.
+*/
+export async function discoverByCrawl(
+  rootUrl: string,
+  filter: UrlFilter = {},
+  options: FetchOptions & { maxPages?: number } = {}
+): Promise<string[]> {
+  const root = normalizeUrl(rootUrl);
+  const maxPages = options.maxPages ?? DEFAULT_MAX_CRAWL_PAGES;
+  const queue = [root];
+  const seen = new Set(queue);
+  const found: string[] = [];
+
+  while (queue.length && seen.size - queue.length < maxPages) {
+    const url = queue.shift()!;
+    let html: string;
+    try {
+      html = await fetchText(url, options);
+    } catch (error) {
+      console.error(`Skipping ${url}: ${(error as Error).message}`);
+      continue;
+    }
+    if (matchesFilter(url, filter)) {
+      found.push(url);
+    }
+    for (const link of extractLinks(html, url)) {
+      if (link.startsWith(root) && !seen.has(link)) {
+        seen.add(link);
+        queue.push(link);
+      }
+    }
+  }
+
+  if (queue.length) {
+    console.log(`Stopped crawling after ${maxPages} pages, ${queue.length} links were not followed`);
+  }
+  console.log(`Found ${found.length} pages matching the filter below ${root}`);
+  return found;
+}
+
+// Register new sources, returns the URLs that weren't registered yet
+export async function addSources(db: sqlite3.Database, urls: string[]): Promise<string[]> {
+  const registered = new Set((await listSources(db)).map(source => source.url));
+  const added = [...new Set(urls.map(normalizeUrl))].filter(url => !registered.has(url));
+  const now = new Date().toISOString();
+  for (const url of added) {
+    await upsertSource(db, { url, added_at: now, fetched_at: null, etag: null, last_modified: null, status: 'pending' });
+  }
+  return added;
+}
+
+// Unregister sources and delete their chunks, returns how many chunks were deleted per URL
+export async function removeSources(db: sqlite3.Database, urls: string[]): Promise<Record<string, number>> {
+  const removed: Record<string, number> = {};
+  for (const url of urls.map(normalizeUrl)) {
+    removed[url] = await deleteSourceChunks(db, url);
+    await deleteSource(db, url);
+  }
+  return removed;
+}
+
+function isStale(source: SourceRecord, maxAgeHours: number): boolean {
+  if (!source.fetched_at || source.status.startsWith('error')) {
+    return true;
+  }
+  return Date.now() - Date.parse(source.fetched_at) > maxAgeHours * 60 * 60 * 1000;
+}
+
+function pageToDocument(url: string, body: string): Document {
+  // Mirrors may hold Markdown files as well as HTML pages
+  const html = /<(html|head|body|div|p|h1)[\s>]/i.test(body);
+  return new Document({
+    pageContent: html ? htmlToMarkdown(body) : body,
+    metadata: { source: url, title: (html ? extractHtmlTitle(body) : undefined) ?? url, source_type: 'url' },
+  });
+}
+
+/*
+Re-fetch the stale sources and replace the chunks of the pages that changed.
+A source that fails to fetch keeps its chunks, and is retried on the next refresh.
+*/
+export async function refreshSources(
+  db: sqlite3.Database,
+  embeddings: EmbeddingsInterface,
+  options: RefreshOptions = {}
+): Promise<RefreshResult[]> {
+  const maxAgeHours = options.maxAgeHours ?? DEFAULT_MAX_AGE_HOURS;
+  const only = options.urls ? new Set(options.urls.map(normalizeUrl)) : undefined;
+  const sources = (await listSources(db)).filter(source => !only || only.has(source.url));
+  const results: RefreshResult[] = [];
+
+  for (const source of sources) {
+    if (!options.force && !isStale(source, maxAgeHours)) {
+      results.push({ url: source.url, status: 'fresh' });
+      continue;
+    }
+
+    const { chunks, ...record } = source;
+    const fetchedAt = new Date().toISOString();
+    try {
+      const page = await fetchPage(source.url, options.force ? {} : record, options);
+      if (page.status === 'not_modified') {
+        console.log(`Not modified: ${source.url}`);
+        await upsertSource(db, { ...record, fetched_at: fetchedAt, status: 'not_modified' });
+        results.push({ url: source.url, status: 'not_modified' });
+        continue;
+      }
+
+      const splits = splitDocumentsByStructure([pageToDocument(source.url, page.body)], { chunkSize: options.chunkSize ?? 400 });
+      const result = await replaceSourceChunks(db, source.url, splits, embeddings);
+      console.log(`Fetched: ${source.url} (${result.added} chunks added, ${result.removed} removed, ${result.unchanged} unchanged)`);
+      await upsertSource(db, {
+        ...record,
+        fetched_at: fetchedAt,
+        etag: page.etag,
+        last_modified: page.last_modified,
+        status: 'fetched',
+      });
+      results.push({ url: source.url, status: 'fetched', added: result.added, removed: result.removed });
+    } catch (error) {
+      const message = (error as Error).message;
+      console.error(`Failed to fetch ${source.url}: ${message}`);
+      await upsertSource(db, { ...record, status: `error: ${message}` });
+      results.push({ url: source.url, status: 'error', error: message });
+    }
+  }
+  return results;
+}
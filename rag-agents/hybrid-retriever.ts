@@ -0,0 +1,148 @@
+import { BaseRetriever, BaseRetrieverInput } from '@langchain/core/retrievers';
+import { Document } from '@langchain/core/documents';
+import { CallbackManagerForRetrieverRun } from '@langchain/core/callbacks/manager';
+
+/* READ
+Embedding similarity is great at matching meaning, but it often misses exact API names
+like `interrupt`, `MemorySaver` or `Command`. Keyword search is the opposite: it is precise
+on rare terms, but knows nothing about meaning.
+
+A hybrid retriever runs both and merges the two ranked lists with Reciprocal Rank Fusion (RRF).
+Each document scores `weight / (c + rank)` in every list it appears in, and the documents
+with the highest total score win. Because RRF only looks at ranks, we never have to compare
+a BM25 score with a cosine similarity.
+*/
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'when', 'with',
+]);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9_]+/g) || []).filter(token => !STOPWORDS.has(token));
+}
+
+export interface KeywordRetrieverInput extends BaseRetrieverInput {
+  docs: Document[];
+  k?: number;
+  // BM25 term frequency saturation and length normalization
+  k1?: number;
+  b?: number;
+}
+
+// A small in-memory BM25 index over a fixed set of documents
+export class KeywordRetriever extends BaseRetriever {
+  lc_namespace = ['rag-agents', 'retrievers', 'keyword'];
+
+  docs: Document[];
+  k: number;
+  k1: number;
+  b: number;
+
+  private termFrequencies: Map<string, number>[];
+  private documentFrequencies = new Map<string, number>();
+  private docLengths: number[];
+  private avgDocLength: number;
+
+  constructor(fields: KeywordRetrieverInput) {
+    super(fields);
+    this.docs = fields.docs;
+    this.k = fields.k ?? 4;
+    this.k1 = fields.k1 ?? 1.5;
+    this.b = fields.b ?? 0.75;
+
+    this.termFrequencies = this.docs.map(doc => {
+      const frequencies = new Map<string, number>();
+      for (const token of tokenize(doc.pageContent)) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+      for (const token of frequencies.keys()) {
+        this.documentFrequencies.set(token, (this.documentFrequencies.get(token) || 0) + 1);
+      }
+      return frequencies;
+    });
+    this.docLengths = this.termFrequencies.map(frequencies =>
+      [...frequencies.values()].reduce((sum, count) => sum + count, 0));
+    this.avgDocLength = this.docLengths.reduce((sum, length) => sum + length, 0) / (this.docs.length || 1);
+  }
+
+  private idf(token: string): number {
+    const docFrequency = this.documentFrequencies.get(token) || 0;
+    return Math.log(1 + (this.docs.length - docFrequency + 0.5) / (docFrequency + 0.5));
+  }
+
+  async _getRelevantDocuments(query: string): Promise<Document[]> {
+    const queryTokens = [...new Set(tokenize(query))];
+    const scored = this.termFrequencies.map((frequencies, index) => {
+      let score = 0;
+      for (const token of queryTokens) {
+        const tf = frequencies.get(token);
+        if (!tf) continue;
+        const lengthNorm = 1 - this.b + this.b * (this.docLengths[index] / this.avgDocLength);
+        score += this.idf(token) * (tf * (this.k1 + 1)) / (tf + this.k1 * lengthNorm);
+      }
+      return { index, score };
+    });
+
+    return scored
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.k)
+      .map(({ index }) => this.docs[index]);
+  }
+}
+
+export interface HybridRetrieverInput extends BaseRetrieverInput {
+  retrievers: BaseRetriever[];
+  // One weight per retriever, defaults to equal weighting
+  weights?: number[];
+  // Number of fused documents to return
+  k?: number;
+  // RRF constant, higher values flatten the difference between ranks
+  c?: number;
+}
+
+// Merge the ranked results of several retrievers with weighted Reciprocal Rank Fusion
+export class HybridRetriever extends BaseRetriever {
+  lc_namespace = ['rag-agents', 'retrievers', 'hybrid'];
+
+  retrievers: BaseRetriever[];
+  weights: number[];
+  k: number;
+  c: number;
+
+  constructor(fields: HybridRetrieverInput) {
+    super(fields);
+    this.retrievers = fields.retrievers;
+    this.weights = fields.weights ?? this.retrievers.map(() => 1 / this.retrievers.length);
+    this.k = fields.k ?? 4;
+    this.c = fields.c ?? 60;
+    if (this.weights.length !== this.retrievers.length) {
+      throw new Error('HybridRetriever needs exactly one weight per retriever.');
+    }
+  }
+
+  async _getRelevantDocuments(query: string, runManager?: CallbackManagerForRetrieverRun): Promise<Document[]> {
+    const resultLists = await Promise.all(
+      this.retrievers.map(retriever => retriever.invoke(query, runManager?.getChild()))
+    );
+
+    const fused = new Map<string, { doc: Document; score: number }>();
+    resultLists.forEach((docs, listIndex) => {
+      docs.forEach((doc, rank) => {
+        const key = doc.metadata.chunk_hash ?? doc.pageContent;
+        const entry = fused.get(key) ?? { doc, score: 0 };
+        entry.score += this.weights[listIndex] / (this.c + rank + 1);
+        fused.set(key, entry);
+      });
+    });
+
+    return [...fused.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.k)
+      .map(({ doc, score }) => new Document({
+        pageContent: doc.pageContent,
+        metadata: { ...doc.metadata, rrf_score: score },
+      }));
+  }
+}
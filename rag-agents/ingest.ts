@@ -0,0 +1,163 @@
+import { parseArgs } from 'util';
+import { createEmbeddingModel } from '../shared/models';
+import {
+  DEFAULT_MAX_AGE_HOURS,
+  DEFAULT_MAX_CRAWL_PAGES,
+  RefreshResult,
+  addSources,
+  discoverByCrawl,
+  discoverFromSitemap,
+  refreshSources,
+  removeSources,
+} from './docs-sources';
+import { DEFAULT_INDEX_PATH, closeVectorIndex, listSources, openVectorIndex } from './vector-index';
+
+/* READ
+Command-line tool to manage the pages of the RAG index (see ```rag-agents/docs-sources.ts```).
+
+Register every LangGraph docs page from the sitemap, except the reference pages, and index them:
+npx ts-node rag-agents/ingest.ts discover --sitemap https://langchain-ai.github.io/langgraph/sitemap.xml --exclude 'https://langchain-ai.github.io/langgraph/reference/*'
+
+Or crawl the pages below a root URL instead:
+npx ts-node rag-agents/ingest.ts discover --crawl https://langchain-ai.github.io/langgraph/concepts/ --max-pages 50
+
+Re-fetch the pages that weren't fetched in the last 24 hours (only changed pages are downloaded and embedded again):
+npx ts-node rag-agents/ingest.ts refresh --max-age 24
+
+List, add and remove pages:
+npx ts-node rag-agents/ingest.ts list
+npx ts-node rag-agents/ingest.ts add https://langchain-ai.github.io/langgraph/concepts/time-travel/
+npx ts-node rag-agents/ingest.ts remove https://langchain-ai.github.io/langgraph/concepts/faq/
+
+Every command takes `--mirror <dir>` to read pages from a local mirror instead of the network,
+and `--index <path>` to pick the index file. The embedding model is the one configured in your .env file.
+
+Once pages are registered, `getLanggraphDocsRetriever` refreshes them with the same logic when
+`RAG_REFRESH_INDEX=true`, instead of crawling the built-in `LANGGRAPH_DOCS` list.
+*/
+
+const USAGE = `Usage: npx ts-node rag-agents/ingest.ts <command> [options]
+
+Commands:
+  list                              List the registered pages, when they were fetched and their chunk count
+  add <url...>                      Register pages and fetch them
+  remove <url...>                   Unregister pages and delete their chunks
+  discover --sitemap <url>          Register the pages of a sitemap and fetch them
+  discover --crawl <url>            Register the pages linked below a root URL and fetch them
+  refresh [url...]                  Re-fetch the stale pages (all registered pages by default)
+
+Options:
+  --index <path>        Index file (default: ${DEFAULT_INDEX_PATH})
+  --mirror <dir>        Read pages from a local mirror directory instead of the network
+  --include <glob>      discover: only register matching URLs, can be repeated
+  --exclude <glob>      discover: skip matching URLs, can be repeated
+  --max-pages <n>       discover --crawl: stop after n pages (default: ${DEFAULT_MAX_CRAWL_PAGES})
+  --max-age <hours>     refresh: pages fetched more recently are fresh (default: ${DEFAULT_MAX_AGE_HOURS})
+  --force               refresh: re-fetch every page, even fresh and unmodified ones
+  --no-fetch            add / discover: only register the pages, fetch them on the next refresh`;
+
+function printResults(results: RefreshResult[]) {
+  const counts: Record<string, number> = {};
+  for (const result of results) {
+    counts[result.status] = (counts[result.status] ?? 0) + 1;
+  }
+  const summary = Object.entries(counts).map(([status, count]) => `${count} ${status}`).join(', ');
+  console.log(`Refreshed ${results.length} pages: ${summary || 'nothing to do'}`);
+}
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      index: { type: 'string' },
+      mirror: { type: 'string' },
+      sitemap: { type: 'string' },
+      crawl: { type: 'string' },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      'max-pages': { type: 'string' },
+      'max-age': { type: 'string' },
+      force: { type: 'boolean' },
+      'no-fetch': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const [command, ...urls] = positionals;
+  if (!command || values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const fetchOptions = { mirrorDir: values.mirror };
+  const index = await openVectorIndex(values.index ?? DEFAULT_INDEX_PATH);
+  try {
+    switch (command) {
+      case 'list': {
+        const sources = await listSources(index);
+        for (const source of sources) {
+          console.log(`${source.url}\n  fetched: ${source.fetched_at ?? 'never'}  status: ${source.status}  chunks: ${source.chunks}`
+            + `${source.etag ? `  etag: ${source.etag}` : ''}${source.last_modified ? `  last-modified: ${source.last_modified}` : ''}`);
+        }
+        console.log(`${sources.length} registered pages`);
+        break;
+      }
+
+      case 'add':
+      case 'discover': {
+        let discovered = urls;
+        if (command === 'discover') {
+          const filter = { include: values.include, exclude: values.exclude };
+          if (values.sitemap) {
+            discovered = await discoverFromSitemap(values.sitemap, filter, fetchOptions);
+          } else if (values.crawl) {
+            const maxPages = values['max-pages'] ? Number(values['max-pages']) : undefined;
+            discovered = await discoverByCrawl(values.crawl, filter, { ...fetchOptions, maxPages });
+          } else {
+            throw new Error('discover needs --sitemap <url> or --crawl <url>');
+          }
+        } else if (!urls.length) {
+          throw new Error('add needs at least one URL');
+        }
+
+        const added = await addSources(index, discovered);
+        console.log(`Registered ${added.length} new pages (${discovered.length - added.length} already registered)`);
+        if (added.length && !values['no-fetch']) {
+          printResults(await refreshSources(index, await createEmbeddingModel(), { ...fetchOptions, urls: added }));
+        }
+        break;
+      }
+
+      case 'remove': {
+        if (!urls.length) {
+          throw new Error('remove needs at least one URL');
+        }
+        const removed = await removeSources(index, urls);
+        for (const [url, chunks] of Object.entries(removed)) {
+          console.log(`Removed ${url} (${chunks} chunks deleted)`);
+        }
+        break;
+      }
+
+      case 'refresh': {
+        const results = await refreshSources(index, await createEmbeddingModel(), {
+          ...fetchOptions,
+          urls: urls.length ? urls : undefined,
+          maxAgeHours: values['max-age'] ? Number(values['max-age']) : undefined,
+          force: values.force,
+        });
+        printResults(results);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+    }
+  } finally {
+    await closeVectorIndex(index);
+  }
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,115 @@
+import { BaseRetriever, BaseRetrieverInput, BaseRetrieverInterface } from '@langchain/core/retrievers';
+import { Document } from '@langchain/core/documents';
+import { CallbackManagerForRetrieverRun } from '@langchain/core/callbacks/manager';
+
+/* READ
+Users often scope their questions: "in the concepts section", "in the multi-agent tutorial".
+Plain similarity search ignores that scope, and happily returns a how-to guide or an API reference page instead.
+
+A metadata filter restricts retrieval to the chunks whose metadata matches it:
+- source: part of the page URL (or file path), ex. "multi_agent" or "concepts/persistence"
+- section: part of the heading path of the chunk, ex. "Checkpointers"
+- doc_type: the kind of page, read from the URL: tutorial, concept, how-to or reference
+
+Text is compared case-insensitively, and "-", "_" and spaces are treated alike, so "multi-agent" matches
+".../multi_agent/...". All set fields must match.
+
+The docs retriever (see ```rag-agents/utils.ts```) is a `MetadataFilterRetriever`: it searches only the matching
+chunks, so a narrow filter still returns its best `k` documents. Other retrievers are filtered after retrieval.
+*/
+
+export const DOC_TYPES = ['tutorial', 'concept', 'how-to', 'reference'] as const;
+export type DocType = typeof DOC_TYPES[number];
+
+export interface MetadataFilter {
+  source?: string | null;
+  section?: string | null;
+  doc_type?: DocType | null;
+}
+
+// The URL path segment of each kind of page in the LangGraph docs
+const DOC_TYPE_SEGMENTS: Record<string, DocType> = {
+  tutorials: 'tutorial',
+  concepts: 'concept',
+  'how-tos': 'how-to',
+  reference: 'reference',
+};
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[-_\s]+/g, '-');
+}
+
+export function docTypeOf(metadata: Record<string, any>): DocType | null {
+  const segments = String(metadata.source ?? '').toLowerCase().split(/[/\\]/);
+  const segment = segments.find(candidate => candidate in DOC_TYPE_SEGMENTS);
+  return segment ? DOC_TYPE_SEGMENTS[segment] : null;
+}
+
+export function isEmptyFilter(filter?: MetadataFilter | null): boolean {
+  return !filter || (!filter.source && !filter.section && !filter.doc_type);
+}
+
+export function describeFilter(filter: MetadataFilter): string {
+  return Object.entries(filter)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+}
+
+export function matchesMetadataFilter(doc: Document, filter: MetadataFilter): boolean {
+  const { metadata } = doc;
+  if (filter.source && !normalize(String(metadata.source ?? '')).includes(normalize(filter.source))) {
+    return false;
+  }
+  if (filter.section) {
+    const section = normalize(`${metadata.title ?? ''} > ${metadata.heading_path ?? ''}`);
+    if (!section.includes(normalize(filter.section))) {
+      return false;
+    }
+  }
+  return !filter.doc_type || docTypeOf(metadata) === filter.doc_type;
+}
+
+export interface MetadataFilterRetrieverInput extends BaseRetrieverInput {
+  // Build a retriever over the chunks matching the filter, or over every chunk without one
+  build: (filter?: MetadataFilter) => BaseRetrieverInterface;
+}
+
+// Filtered retrievers kept at once. Each holds a copy of its chunks and their BM25 index
+const MAX_FILTERED_RETRIEVERS = 20;
+
+// A retriever that can be narrowed down to the chunks matching a metadata filter
+export class MetadataFilterRetriever extends BaseRetriever {
+  lc_namespace = ['rag-agents', 'retrievers', 'metadata_filter'];
+
+  private build: (filter?: MetadataFilter) => BaseRetrieverInterface;
+  private unfiltered: BaseRetrieverInterface;
+  // The retrievers of the latest filters. `self_query` extracts sources and sections as free text,
+  // so there is no limit to the filters a long-running server sees: only the most recently used are kept
+  private filtered = new Map<string, BaseRetrieverInterface>();
+
+  constructor(fields: MetadataFilterRetrieverInput) {
+    super(fields);
+    this.build = fields.build;
+    this.unfiltered = fields.build();
+  }
+
+  withMetadataFilter(filter: MetadataFilter): BaseRetrieverInterface {
+    if (isEmptyFilter(filter)) {
+      return this.unfiltered;
+    }
+    const key = JSON.stringify([filter.source ?? null, filter.section ?? null, filter.doc_type ?? null]);
+    const retriever = this.filtered.get(key) ?? this.build(filter);
+    // Re-inserting moves the filter to the end, so the first key is always the least recently used
+    this.filtered.delete(key);
+    this.filtered.set(key, retriever);
+    if (this.filtered.size > MAX_FILTERED_RETRIEVERS) {
+      this.filtered.delete(this.filtered.keys().next().value!);
+    }
+    return retriever;
+  }
+
+  async _getRelevantDocuments(query: string, runManager?: CallbackManagerForRetrieverRun): Promise<Document[]> {
+    return this.unfiltered.invoke(query, runManager?.getChild());
+  }
+}
@@ -0,0 +1,143 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Document } from '@langchain/core/documents';
+import { MemoryVectorStore } from 'langchain/vectorstores/memory';
+import { Command, MemorySaver } from '@langchain/langgraph';
+import { HashEmbeddings, ScriptedChatModel, ScriptedResponse } from '../shared/testing';
+import { buildRagGraph, RAG_PRESETS } from './rag-graph';
+import { AnswerCache } from './answer-cache';
+
+/*
+Runs the RAG graphs offline: a `MemoryVectorStore` of `HashEmbeddings` replaces the docs index,
+and a `ScriptedChatModel` answers every LLM call (see ```shared/testing.ts```).
+*/
+
+const DOCUMENTS = [
+  new Document({ pageContent: 'Checkpointers persist the state of a graph between runs.', metadata: { source: 'https://example.com/concepts/persistence/', section_id: 'persistence' } }),
+  new Document({ pageContent: 'Bananas are a yellow fruit.', metadata: { source: 'https://example.com/fruit/', section_id: 'fruit' } }),
+];
+
+const ANSWER = 'Checkpointers persist the state between runs [1].';
+
+// `first` answers before the default script, ex. to grade every document of one question as unrelated
+function scriptedModel(first: ScriptedResponse[] = []): ScriptedChatModel {
+  return new ScriptedChatModel({ responses: [
+    ...first,
+    { match: 'extract the scope of a question', structured: { doc_type: null, source: null, section: null } },
+    { match: 'split a user question', structured: { sub_questions: ['How do checkpointers persist state?'] } },
+    { match: 'LLM generation', structured: { sentences: [{ sentence: ANSWER, supported: true }] } },
+    { match: 'question-answering', structured: { answer: ANSWER, citations: [{ id: 1, quote: 'Checkpointers persist the state' }] } },
+    // Document grader, one call per retrieved document
+    { match: 'Bananas', structured: { relevance_score: 0, rationale: 'Unrelated to the question' } },
+    { match: 'Checkpointers persist the state of a graph', structured: { relevance_score: 9, rationale: 'Answers the question' } },
+  ]});
+}
+
+async function retriever() {
+  const vectorstore = await MemoryVectorStore.fromDocuments(DOCUMENTS, new HashEmbeddings());
+  return vectorstore.asRetriever(2);
+}
+
+test('the corrective RAG graph answers from the relevant documents, with citations', async () => {
+  const llm = scriptedModel();
+  const graph = buildRagGraph({ ...RAG_PRESETS.corrective, retriever: await retriever(), llm });
+
+  const result = await graph.invoke({ question: 'How do checkpointers persist state?' });
+
+  assert.equal(result.generation, ANSWER);
+  assert.deepEqual(result.documents.map(doc => doc.metadata.section_id), ['persistence']);
+  assert.equal(result.citations.length, 1);
+  assert.equal(result.citations[0].source, 'https://example.com/concepts/persistence/');
+  assert.equal(result.low_confidence, false);
+});
+
+test('the memory and review RAG graph pauses for review and keeps the reviewer\'s edit', async () => {
+  const llm = scriptedModel();
+  const graph = buildRagGraph({ ...RAG_PRESETS.memoryHil, retriever: await retriever(), llm, checkpointer: new MemorySaver() });
+  const config = { configurable: { thread_id: 'review' } };
+
+  await graph.invoke({ question: 'How do checkpointers persist state?' }, config);
+  const paused = await graph.getState(config);
+  assert.deepEqual(paused.next, ['human_review']);
+  assert.equal(paused.values.generation, ANSWER);
+
+  const edited = 'Checkpointers save the state of every step.';
+  const result = await graph.invoke(new Command({ resume: { action: 'edit_answer', answer: edited } }), config);
+
+  assert.equal(result.generation, edited);
+  // The draft's citations don't describe the edited answer
+  assert.deepEqual(result.citations, []);
+  assert.equal(result.messages.at(-1)!.content, edited);
+});
+
+test('the memory and review RAG graph only caches unedited answers, and still reviews cache hits', async t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'answer-cache-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const answerCache = new AnswerCache({ embeddings: new HashEmbeddings(), indexPath: path.join(dir, 'index.sqlite') });
+  const graph = buildRagGraph({
+    ...RAG_PRESETS.memoryHil, retriever: await retriever(), llm: scriptedModel(), checkpointer: new MemorySaver(), answerCache,
+  });
+  const question = 'How do checkpointers persist state?';
+  const ask = async (thread_id: string, review: unknown) => {
+    const config = { configurable: { thread_id } };
+    await graph.invoke({ question }, config);
+    const paused = await graph.getState(config);
+    assert.deepEqual(paused.next, ['human_review']);
+    await graph.invoke(new Command({ resume: review }), config);
+    return paused.values;
+  };
+
+  // An edited answer belongs to its thread
+  await ask('edited', { action: 'edit_answer', answer: 'Only for this thread.' });
+  assert.equal((await ask('approved', { action: 'approve' })).answer_cache.hit, false);
+
+  const hit = await ask('cached', { action: 'approve' });
+  assert.equal(hit.answer_cache.hit, true);
+  assert.equal(hit.generation, ANSWER);
+});
+
+test('the memory and review RAG graph reviews and remembers a turn without relevant documents', async () => {
+  const followUp = 'What do bananas taste like?';
+  const llm = scriptedModel([
+    { match: 'rephrase the follow-up question', content: followUp },
+    { match: `user question: \n\n ${followUp}`, structured: { relevance_score: 0, rationale: 'Not in the docs' } },
+  ]);
+  const graph = buildRagGraph({ ...RAG_PRESETS.memoryHil, retriever: await retriever(), llm, checkpointer: new MemorySaver() });
+  const config = { configurable: { thread_id: 'no-documents' } };
+
+  await graph.invoke({ question: 'How do checkpointers persist state?' }, config);
+  await graph.invoke(new Command({ resume: { action: 'approve' } }), config);
+
+  await graph.invoke({ question: followUp }, config);
+  const paused = await graph.getState(config);
+  assert.deepEqual(paused.next, ['human_review']);
+  // The previous turn's answer isn't left in State
+  assert.match(paused.values.generation, /couldn't find this/);
+  assert.deepEqual(paused.values.citations, []);
+
+  const result = await graph.invoke(new Command({ resume: { action: 'approve' } }), config);
+  assert.deepEqual(result.messages.map(message => message.content), [
+    'How do checkpointers persist state?', ANSWER, followUp, paused.values.generation,
+  ]);
+});
+
+test('the answer cache only returns answers retrieved with the same metadata filter', async t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'answer-cache-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const answerCache = new AnswerCache({ embeddings: new HashEmbeddings(), indexPath: path.join(dir, 'index.sqlite') });
+  const graph = buildRagGraph({ ...RAG_PRESETS.corrective, retriever: await retriever(), llm: scriptedModel(), answerCache });
+  const question = 'How do checkpointers persist state?';
+  const ask = (metadata_filter?: Record<string, string>) => graph.invoke({ question }, { configurable: { metadata_filter } });
+
+  const persistence = { source: 'https://example.com/concepts/persistence/' };
+  assert.equal((await ask(persistence)).answer_cache?.hit, false);
+  // The filtered answer isn't returned without the filter, or with another one
+  assert.equal((await ask()).answer_cache?.hit, false);
+  assert.equal((await ask({ doc_type: 'concept' })).answer_cache?.hit, false);
+
+  assert.equal((await ask(persistence)).answer_cache?.hit, true);
+  assert.equal((await ask()).answer_cache?.hit, true);
+});
@@ -0,0 +1,239 @@
+import { StateGraph, START, END, BaseCheckpointSaver } from '@langchain/langgraph';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import {
+  AnswerCacheSource,
+  RagGraphState,
+  RagNode,
+  RagState,
+  RetrieverSource,
+  configureMemory,
+  createCheckAnswerCacheNode,
+  createCondenseQuestionNode,
+  createDecomposeQuestionNode,
+  createSelfQueryNode,
+  createDecideToGenerate,
+  createGenerateNode,
+  createGradeDocumentsNode,
+  createGradeHallucinationsNode,
+  createHumanReviewNode,
+  createRetrieveNode,
+  createSummarizeConversationNode,
+  createTransformQueryNode,
+  createUpdateAnswerCacheNode,
+  decideIfGrounded,
+  fallbackResponse,
+  noRelevantDocuments,
+  rerankDocuments,
+} from './rag-nodes';
+
+/* READ
+Every RAG graph in this module follows the same backbone: retrieve documents, then generate a cited answer.
+The more advanced graphs only add stages around that backbone, so rather than wiring each graph by hand,
+`buildRagGraph` assembles the `StateGraph` from the node factories in ```rag-agents/rag-nodes.ts```:
+
+- grading: grade every document and drop the irrelevant ones
+- queryRewrite: rewrite the question and retrieve again when nothing is relevant (needs grading)
+- hallucinationCheck: grade the answer sentence by sentence, re-generate or fall back
+- memory: condense follow-ups with the chat history, save each turn to `messages`, and summarize long threads
+- selfQuery: extract the scope of the question (ex. "in the concepts section") as a metadata filter for retrieval
+- decomposition: split compound questions into sub-questions, retrieved for and answered one by one
+- humanReview: interrupt with a structured review request before finishing
+- answerCache: answer repeated questions from a semantic cache, and cache new graded answers
+
+Your own stages (ex. a reranker or a query expansion step) plug into the same interface:
+a stage is a named node and the position in the pipeline where it runs.
+
+  retrieve_documents  <- 'before_retrieve' stages run before it
+  grade_documents     <- 'after_retrieve' stages run before it
+  generate_response   <- 'after_grade' stages run before it
+  grade_hallucinations <- 'after_generate' stages run before it
+
+Stages in the same position run in the order they are listed.
+*/
+
+export type RagStagePosition = 'before_retrieve' | 'after_retrieve' | 'after_grade' | 'after_generate';
+
+export interface RagStage {
+  name: string;
+  position: RagStagePosition;
+  node: RagNode;
+}
+
+export interface RagGraphOptions {
+  retriever: RetrieverSource;
+  llm: BaseChatModel;
+  // The graders default to `llm`
+  documentGraderLlm?: BaseChatModel;
+  hallucinationGraderLlm?: BaseChatModel;
+  grading?: boolean;
+  queryRewrite?: boolean;
+  hallucinationCheck?: boolean;
+  memory?: boolean;
+  selfQuery?: boolean;
+  decomposition?: boolean;
+  humanReview?: boolean;
+  // Answers are only cached when hallucinationCheck is on, but any graph can answer from the cache
+  answerCache?: AnswerCacheSource;
+  stages?: RagStage[];
+  // Required to resume after a human review, and to remember past turns
+  checkpointer?: BaseCheckpointSaver;
+}
+
+// Sort the documents by their grader score and keep the top `max_context_documents`
+export const rerankStage: RagStage = { name: 'rerank_documents', position: 'after_grade', node: rerankDocuments };
+
+export function buildRagGraph(options: RagGraphOptions) {
+  const { retriever, llm, grading, queryRewrite, hallucinationCheck, memory, selfQuery, decomposition, humanReview, answerCache } = options;
+  if (queryRewrite && !grading) {
+    throw new Error('Query rewriting needs document grading to decide when to rewrite.');
+  }
+
+  // Self-querying and decomposing the question are just other stages, placed before any custom ones
+  const stages: RagStage[] = [];
+  if (selfQuery) {
+    stages.push({ name: 'self_query', position: 'before_retrieve', node: createSelfQueryNode(llm) });
+  }
+  if (decomposition) {
+    stages.push({ name: 'decompose_question', position: 'before_retrieve', node: createDecomposeQuestionNode(llm) });
+  }
+  stages.push(...(options.stages ?? []));
+  const stageNames = stages.map(stage => stage.name);
+  const duplicate = stageNames.find((name, index) => stageNames.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Two RAG stages are named "${duplicate}".`);
+  }
+
+  // Node names are only known at runtime, so we type the builder with plain strings
+  const graphBuilder = new StateGraph(RagState) as unknown as StateGraph<typeof RagState.spec, RagGraphState, Partial<RagGraphState>, string>;
+
+  // Where the answer goes once it is final: to the reviewer, to the cache, to memory, or straight to the user
+  const turnEnd = memory ? 'configure_memory' : END;
+  const cacheAnswers = answerCache && hallucinationCheck;
+  const saveNode = cacheAnswers ? 'update_answer_cache' : turnEnd;
+  const finalNode = humanReview ? 'human_review' : saveNode;
+
+  // Add the stages of one position as a chain leading to `next`, and return the first node of the chain
+  const chainStages = (position: RagStagePosition, next: string): string => {
+    const chain = stages.filter(stage => stage.position === position);
+    chain.forEach((stage, index) => {
+      graphBuilder.addNode(stage.name, stage.node);
+      graphBuilder.addEdge(stage.name, chain[index + 1]?.name ?? next);
+    });
+    return chain.length ? chain[0].name : next;
+  };
+
+  graphBuilder
+    .addNode('retrieve_documents', createRetrieveNode(retriever))
+    .addNode('generate_response', createGenerateNode(llm, { withChatHistory: memory }));
+
+  // START -> condense_question -> check_answer_cache -> 'before_retrieve' stages -> retrieve_documents
+  let entry = chainStages('before_retrieve', 'retrieve_documents');
+  if (answerCache) {
+    // A hit skips the pipeline, but is still reviewed, since the reviewer may want a different answer for this thread
+    const hitNode = humanReview ? 'human_review' : turnEnd;
+    graphBuilder.addNode('check_answer_cache', createCheckAnswerCacheNode(answerCache, { llm, hitNode, missNode: entry }), {
+      ends: [hitNode, entry],
+    });
+    entry = 'check_answer_cache';
+  }
+  if (memory) {
+    graphBuilder.addNode('condense_question', createCondenseQuestionNode(llm));
+    graphBuilder.addEdge('condense_question', entry);
+    entry = 'condense_question';
+  }
+  graphBuilder.addEdge(START, entry);
+
+  const generateEntry = chainStages('after_grade', 'generate_response');
+  if (grading) {
+    graphBuilder.addNode('grade_documents', createGradeDocumentsNode(options.documentGraderLlm ?? llm, { withChatHistory: memory }));
+    graphBuilder.addEdge('retrieve_documents', chainStages('after_retrieve', 'grade_documents'));
+
+    // Giving up is still an answer: it is reviewed and saved to memory like any other
+    graphBuilder.addNode('no_relevant_documents', noRelevantDocuments);
+    graphBuilder.addEdge('no_relevant_documents', finalNode);
+    if (queryRewrite) {
+      graphBuilder.addNode('transform_query', createTransformQueryNode(llm));
+      graphBuilder.addEdge('transform_query', 'retrieve_documents');
+    }
+    graphBuilder.addConditionalEdges(
+      'grade_documents',
+      createDecideToGenerate({ queryRewrite }),
+      {
+        'some relevant': generateEntry, // generate a response if at least one document is relevant
+        'none relevant': queryRewrite ? 'transform_query' : 'no_relevant_documents', // rewrite the question and retrieve again
+        'rewrites exhausted': 'no_relevant_documents', // give up once we are out of rewrites
+      }
+    );
+  } else {
+    graphBuilder.addEdge('retrieve_documents', chainStages('after_retrieve', generateEntry));
+  }
+
+  if (hallucinationCheck) {
+    graphBuilder
+      .addNode('grade_hallucinations', createGradeHallucinationsNode(options.hallucinationGraderLlm ?? llm))
+      .addNode('fallback_response', fallbackResponse);
+    graphBuilder.addEdge('generate_response', chainStages('after_generate', 'grade_hallucinations'));
+    graphBuilder.addConditionalEdges(
+      'grade_hallucinations',
+      decideIfGrounded,
+      {
+        'supported': finalNode, // return the answer if hallucination is not detected
+        'not supported': 'generate_response', // re-generate response if hallucinated
+        'attempts exhausted': 'fallback_response', // return the best attempt once we are out of retries
+      }
+    );
+    graphBuilder.addEdge('fallback_response', finalNode);
+  } else {
+    graphBuilder.addEdge('generate_response', chainStages('after_generate', finalNode));
+  }
+
+  if (humanReview) {
+    graphBuilder.addNode('human_review', createHumanReviewNode({ approvedNode: saveNode }), {
+      ends: [saveNode, 'generate_response', 'retrieve_documents'],
+    });
+  }
+  if (cacheAnswers) {
+    graphBuilder.addNode('update_answer_cache', createUpdateAnswerCacheNode(answerCache, llm));
+    graphBuilder.addEdge('update_answer_cache', turnEnd);
+  }
+  if (memory) {
+    graphBuilder
+      .addNode('configure_memory', configureMemory)
+      .addNode('summarize_conversation', createSummarizeConversationNode(llm));
+    graphBuilder.addEdge('configure_memory', 'summarize_conversation');
+    graphBuilder.addEdge('summarize_conversation', END);
+  }
+
+  return graphBuilder.compile({ checkpointer: options.checkpointer });
+}
+
+/*
+The three graphs of this module, expressed as presets. Pass one to `buildRagGraph`
+together with a retriever and an LLM, and add or remove stages as you like:
+
+`buildRagGraph({ ...RAG_PRESETS.corrective, retriever, llm, stages: [...RAG_PRESETS.corrective.stages, myStage] })`
+*/
+export const RAG_PRESETS = {
+  simple: {
+    selfQuery: true,
+    decomposition: true,
+    stages: [] as RagStage[],
+  },
+  corrective: {
+    selfQuery: true,
+    decomposition: true,
+    grading: true,
+    queryRewrite: true,
+    hallucinationCheck: true,
+    stages: [rerankStage],
+  },
+  memoryHil: {
+    selfQuery: true,
+    decomposition: true,
+    grading: true,
+    hallucinationCheck: true,
+    memory: true,
+    humanReview: true,
+    stages: [rerankStage],
+  },
+} satisfies Record<string, Omit<RagGraphOptions, 'retriever' | 'llm'>>;
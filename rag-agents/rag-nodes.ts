@@ -0,0 +1,1175 @@
+import { Document } from '@langchain/core/documents';
+import { Annotation, Command, END, interrupt, messagesStateReducer } from '@langchain/langgraph';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { BaseRetrieverInterface } from '@langchain/core/retrievers';
+import { HumanMessage, SystemMessage, AIMessage, BaseMessage, RemoveMessage, getBufferString } from '@langchain/core/messages';
+import { RunnableConfig } from '@langchain/core/runnables';
+import { z } from 'zod';
+import {
+  Citation,
+  CitedAnswer,
+  CitedAnswerSchema,
+  CITATION_INSTRUCTIONS,
+  FlaggedSentence,
+  GenerationAttempt,
+  GradeSentencesSchema,
+  SentenceGrades,
+  buildCitations,
+  flagSentences,
+  formatDocumentsForCitation,
+  selectBestAttempt,
+  supportedRatio,
+} from './citations';
+import { ANSWER_CACHE_THRESHOLD, AnswerCache } from './answer-cache';
+import { ConfigurableChatModel } from '../shared/models';
+import { CONTEXT_TOKEN_BUDGET, ContextReport, createTurnSummarizer, packContext } from './context-packing';
+import {
+  DOC_TYPES,
+  MetadataFilter,
+  MetadataFilterRetriever,
+  describeFilter,
+  isEmptyFilter,
+  matchesMetadataFilter,
+} from './metadata-filter';
+
+/* READ
+The Simple, Corrective and Memory & HITL RAG graphs are built from the same nodes.
+Rather than re-declaring them in every graph, this file defines them once:
+the shared State, the prompts, and a factory for every node that needs an LLM or a retriever.
+`buildRagGraph` in ```rag-agents/rag-graph.ts``` wires them together.
+*/
+
+// Whether the answer came from the answer cache, see Semantic Answer Cache below
+export interface AnswerCacheStatus {
+  hit: boolean;
+  // Similarity to the cached question, on a hit
+  similarity: number | null;
+  cached_question: string | null;
+}
+
+// A record of one rewrite of the user's question, see Query Rewriting below
+export interface QueryRewrite {
+  attempt: number;
+  queries: string[];
+}
+
+/* Define the State using Annotation
+State is one of the most important concepts in an Agent.
+When defining a Graph, you must pass in a schema for State.
+The State schema serves as the input schema for all Nodes and Edges in the graph.
+Let's use the Annotation class, which provides type hints for the properties of the state.
+
+The State of our RAG application will keep track of the user's question, our RAG app's LLM generated response,
+the list of retrieved relevant documents, and the citations that map the response back to those documents.
+The other properties are used by the optional stages (grading, query rewriting, memory and human review),
+and keep their defaults when a stage is turned off.
+*/
+export const RagState = Annotation.Root({
+  question: Annotation<string>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => '',
+  }),
+  // The latest question rewritten to stand on its own, used for retrieval and grading
+  standalone_question: Annotation<string>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => '',
+  }),
+  // Appends new messages, and removes the ones summarized into `summary` (see Conversation Summary below)
+  messages: Annotation<BaseMessage[]>({
+    reducer: messagesStateReducer,
+    default: () => [],
+  }),
+  summary: Annotation<string>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => '',
+  }),
+  generation: Annotation<string>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => '',
+  }),
+  documents: Annotation<Document[]>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => [],
+  }),
+  attempted_generations: Annotation<number>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => 0,
+  }),
+  citations: Annotation<Citation[]>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => [],
+  }),
+  flagged_sentences: Annotation<FlaggedSentence[]>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => [],
+  }),
+  generation_attempts: Annotation<GenerationAttempt[]>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => [],
+  }),
+  low_confidence: Annotation<boolean>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => false,
+  }),
+  search_queries: Annotation<string[]>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => [],
+  }),
+  // The parts of a compound question, each retrieved for and answered explicitly
+  sub_questions: Annotation<string[]>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => [],
+  }),
+  // The scope of the question, extracted by the self-query step (see Self-Querying below)
+  metadata_filter: Annotation<MetadataFilter | null>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => null,
+  }),
+  // Whether nothing matched the filter, so the documents were retrieved without it
+  filter_fallback: Annotation<boolean>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => false,
+  }),
+  query_rewrites: Annotation<QueryRewrite[]>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => [],
+  }),
+  answer_cache: Annotation<AnswerCacheStatus | null>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => null,
+  }),
+  // What fit into the last generation prompt, and what was left out
+  context_report: Annotation<ContextReport | null>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => null,
+  }),
+  // Context added by the human reviewer, and every review action taken this turn
+  additional_context: Annotation<string>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => '',
+  }),
+  review_history: Annotation<ReviewAction[]>({
+    reducer: (currentState, updateValue) => updateValue,
+    default: () => [],
+  }),
+});
+
+export type RagGraphState = typeof RagState.State;
+
+// Every node, including custom stages, takes the State and the run's config, and returns State updates
+export type RagNode = (state: RagGraphState, config?: RunnableConfig) => Promise<Partial<RagGraphState>>;
+
+/*
+A retriever, or a function returning the retriever for a run (ex. to avoid top-level await, or to pick
+the embedding model from the run's config). The function is called on every retrieval, so it should cache.
+*/
+export type RetrieverSource = BaseRetrieverInterface | ((config?: RunnableConfig) => Promise<BaseRetrieverInterface>);
+
+// The answer cache, or a function returning it for a run, like `RetrieverSource`
+export type AnswerCacheSource = AnswerCache | ((config?: RunnableConfig) => Promise<AnswerCache>);
+
+/* Define the RAG prompts
+We define the prompts we will use in our RAG application. These will provide instructions to the
+LLM we use in our application. The context documents are numbered, so that the LLM can cite them.
+*/
+const RAG_PROMPT = `You are an assistant for question-answering tasks.
+Use the following pieces of retrieved context to answer the question.
+If you don't know the answer, just say that you don't know.
+Use three sentences maximum and keep the answer concise.
+${CITATION_INSTRUCTIONS}
+
+Question: {question}
+Context: {context}
+Answer:`;
+
+/*
+With memory, we use `messages` in addition to `question`,
+specifically for grading document relevance, and generating a response.
+*/
+const RAG_PROMPT_WITH_CHAT_HISTORY = `You are an assistant for question-answering tasks.
+Use the following pieces of retrieved context to answer the latest question in the conversation.
+If you don't know the answer, just say that you don't know.
+The pre-existing conversation may provide important context to the question.
+Use three sentences maximum and keep the answer concise.
+${CITATION_INSTRUCTIONS}
+
+Existing Conversation:
+{conversation}
+
+Latest Question:
+{question}
+
+Additional Context from the User:
+{additional_context}
+
+Additional Context from Documents:
+{context}
+
+Answer:`;
+
+/* Define the Nodes
+Nodes are just typescript functions. As mentioned above, Nodes take in your graph's State as input.
+
+The first positional argument is the state, as defined above.
+Each node can access each property in the state, ex. `state.question`.
+
+Nodes return any updates to the state that they want to make.
+By default, the new value returned by each node will override the prior state value.
+You can implement custom handling for updates to State using State Reducers, which we see in our Annotations.
+
+The core of every RAG flow is two nodes:
+1. retrieve_documents: Retrieves documents from our vector store
+2. generate_response: Generates an answer from our documents, with inline citations
+
+Retrieval can be scoped with a metadata filter (see ```rag-agents/metadata-filter.ts```), passed per invocation
+with `{ configurable: { metadata_filter: { doc_type: 'concept' } } }` or extracted from the question by the
+self-query step. If no document matches the filter, we retrieve again without it rather than answer from nothing.
+*/
+async function retrieveAll(retriever: BaseRetrieverInterface, queries: string[], config?: RunnableConfig, filter?: MetadataFilter | null): Promise<Document[]> {
+  const scoped = !filter || isEmptyFilter(filter)
+    ? retriever
+    : retriever instanceof MetadataFilterRetriever ? retriever.withMetadataFilter(filter) : retriever;
+  const results = await Promise.all(queries.map(query => scoped.invoke(query, config)));
+
+  // Several queries can retrieve the same document, so keep only the first copy
+  const seen = new Set<string>();
+  return results.flat().filter(doc => {
+    // Retrievers that can't search by metadata are filtered after retrieval
+    if (filter && !isEmptyFilter(filter) && !matchesMetadataFilter(doc, filter)) return false;
+    const key = doc.metadata.section_id ?? doc.pageContent;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function createRetrieveNode(retriever: RetrieverSource): RagNode {
+  return async (state, config) => {
+    console.log('---RETRIEVE DOCUMENTS---');
+    const instance = typeof retriever === 'function' ? await retriever(config) : retriever;
+
+    // Search with the rewritten queries if we have them, then with the parts of a compound question,
+    // otherwise with the (standalone) question itself. The searches run in parallel.
+    const queries = state.search_queries.length
+      ? state.search_queries
+      : state.sub_questions.length
+        ? state.sub_questions
+        : [state.standalone_question || state.question];
+
+    const filter: MetadataFilter | null = config?.configurable?.metadata_filter ?? state.metadata_filter;
+    if (isEmptyFilter(filter)) {
+      return { documents: await retrieveAll(instance, queries, config), filter_fallback: false };
+    }
+
+    console.log(`---FILTER: ${describeFilter(filter!)}---`);
+    const documents = await retrieveAll(instance, queries, config, filter);
+    if (documents.length) {
+      return { documents, filter_fallback: false };
+    }
+    console.log('---NO DOCUMENTS MATCH THE FILTER, RETRIEVING WITHOUT IT---');
+    return { documents: await retrieveAll(instance, queries, config), filter_fallback: true };
+  };
+}
+
+// The conversation for a prompt: the running summary of older turns, then the recent messages
+function formatConversation(state: RagGraphState): string {
+  const recent = getBufferString(state.messages || []);
+  return state.summary ? `Summary of earlier turns: ${state.summary}\n${recent}` : recent;
+}
+
+export interface ChatHistoryOptions {
+  // Include the conversation so far in the prompt
+  withChatHistory?: boolean;
+}
+
+// Ask for an explicit answer to each part of a compound question
+function formatQuestion(question: string, subQuestions: string[]): string {
+  if (!subQuestions.length) {
+    return question;
+  }
+  const parts = subQuestions.map((subQuestion, index) => `${index + 1}. ${subQuestion}`).join('\n');
+  return `${question}\n\nThis question has several parts. Answer each of them explicitly, in order, ` +
+    `with up to two sentences per part:\n${parts}`;
+}
+
+export function createGenerateNode(llm: BaseChatModel, { withChatHistory = false }: ChatHistoryOptions = {}): RagNode {
+  // Structured output gives us the answer and the quote supporting each citation
+  const citedAnswerLlm = llm.withStructuredOutput<CitedAnswer>(CitedAnswerSchema);
+
+  return async (state, config) => {
+    console.log('---GENERATE RESPONSE---');
+    const question = formatQuestion(state.question, state.sub_questions);
+    const attemptedGenerations = state.attempted_generations || 0;
+
+    const renderPrompt = (formattedDocs: string, conversation: string) => withChatHistory
+      ? RAG_PROMPT_WITH_CHAT_HISTORY
+        .replace('{context}', formattedDocs)
+        .replace('{conversation}', conversation)
+        .replace('{additional_context}', state.additional_context || 'None')
+        .replace('{question}', question)
+      : RAG_PROMPT
+        .replace('{context}', state.additional_context
+          ? `${formattedDocs}\n\nAdditional Context from the User:\n${state.additional_context}`
+          : formattedDocs)
+        .replace('{question}', question);
+
+    // Fit the documents and the conversation into the token budget, see ```rag-agents/context-packing.ts```
+    const packed = await packContext({
+      basePrompt: renderPrompt('', ''),
+      documents: state.documents,
+      messages: withChatHistory ? state.messages || [] : [],
+      summary: withChatHistory ? state.summary : '',
+      budget: config?.configurable?.context_token_budget ?? CONTEXT_TOKEN_BUDGET,
+      countTokens: text => llm.getNumTokens(text),
+      summarize: createTurnSummarizer(llm),
+    });
+    const documents = packed.documents;
+
+    // Invoke our LLM with our RAG prompt
+    const ragPromptFormatted = renderPrompt(formatDocumentsForCitation(documents), packed.conversation);
+    const citedAnswer = await citedAnswerLlm.invoke([new HumanMessage(ragPromptFormatted)]);
+    return {
+      generation: citedAnswer.answer,
+      citations: buildCitations(documents, citedAnswer),
+      attempted_generations: attemptedGenerations + 1,
+      // Only the documents the LLM saw are kept, so that grading and review match the citation numbers
+      documents,
+      context_report: packed.report,
+      // Save the summary of the older turns as the running summary, so retries don't summarize them again
+      ...(packed.summary !== undefined && {
+        summary: packed.summary,
+        messages: packed.summarizedMessages.map(message => new RemoveMessage({ id: message.id! })),
+      }),
+    };
+  };
+}
+
+// -----------------------------------------------------------------------------------
+// Condense the Question Using Chat History -------------------------------------------
+// -----------------------------------------------------------------------------------
+
+/*
+Follow-up questions like "how do I persist that to disk?" are meaningless on their own,
+so embedding them retrieves unrelated documents. Before we retrieve, let's use the chat history
+to rewrite the latest question into a standalone search query.
+
+We keep both in State: the original `question` is what we answer and save to memory,
+while the `standalone_question` is what we retrieve and grade documents with.
+*/
+const CONDENSE_QUESTION_PROMPT = `Given the following conversation and a follow-up question,
+rephrase the follow-up question to be a standalone question that can be used to search the LangGraph documentation.
+Resolve any pronouns or references (ex. "that", "it", "the previous one") using the conversation.
+If the follow-up question already stands on its own, return it unchanged.
+Only return the standalone question.
+
+Conversation:
+{conversation}
+
+Follow-up Question:
+{question}
+
+Standalone Question:`;
+
+export function createCondenseQuestionNode(llm: BaseChatModel): RagNode {
+  return async (state) => {
+    console.log('---CONDENSE QUESTION---');
+    const question = state.question;
+    const messages = state.messages || [];
+
+    // A new turn starts here, so forget the answer, attempts, rewrites and reviews of the previous question
+    const reset = {
+      generation: '',
+      citations: [],
+      flagged_sentences: [],
+      generation_attempts: [],
+      low_confidence: false,
+      search_queries: [],
+      sub_questions: [],
+      metadata_filter: null,
+      filter_fallback: false,
+      query_rewrites: [],
+      additional_context: '',
+      review_history: [],
+    };
+
+    // Nothing to condense on the first turn of a conversation
+    if (!messages.length && !state.summary) {
+      return { standalone_question: question, ...reset };
+    }
+
+    const condenseQuestionPromptFormatted = CONDENSE_QUESTION_PROMPT
+      .replace('{conversation}', formatConversation(state))
+      .replace('{question}', question);
+    const response = await llm.invoke([new HumanMessage(condenseQuestionPromptFormatted)]);
+    const standaloneQuestion = (response.content as string).trim() || question;
+    console.log(`---STANDALONE QUESTION: ${standaloneQuestion}---`);
+
+    return { standalone_question: standaloneQuestion, ...reset };
+  };
+}
+
+// -----------------------------------------------------------------------------------
+// Self-Querying --------------------------------------------------------------------
+// -----------------------------------------------------------------------------------
+
+/*
+"How do I add memory in the multi-agent tutorial?" asks about memory, but only within one page.
+Before we retrieve, let's ask the LLM to extract the scope of the question as a metadata filter,
+which `retrieve_documents` then applies. Questions without a scope get no filter.
+
+A filter passed with `{ configurable: { metadata_filter } }` takes precedence, so the step is skipped.
+*/
+const SelfQuerySchema = z.object({
+  doc_type: z.enum(DOC_TYPES).nullable().describe('The kind of page the user restricted the question to, or null'),
+  source: z.string().nullable().describe('A word or two of the page URL the user restricted the question to, ex. "multi_agent" or "persistence", or null'),
+  section: z.string().nullable().describe('The heading of the section the user restricted the question to, or null'),
+});
+
+const selfQuerySystemPrompt = `You extract the scope of a question about the LangGraph documentation as search filters.
+The documentation has these kinds of pages:
+- tutorial: step-by-step tutorials, under /tutorials/ (ex. /tutorials/multi_agent/agent_supervisor/)
+- concept: conceptual guides, under /concepts/ (ex. /concepts/persistence/, /concepts/human_in_the_loop/)
+- how-to: how-to guides, under /how-tos/
+- reference: the API reference, under /reference/
+
+Only set a filter when the user explicitly restricts where the answer should come from,
+ex. "in the concepts section" (doc_type: concept) or "in the multi-agent tutorial" (doc_type: tutorial, source: "multi_agent").
+The topic of the question alone is not a scope. Leave every filter null when there is no scope.`;
+
+export function createSelfQueryNode(llm: BaseChatModel): RagNode {
+  const selfQueryLlm = llm.withStructuredOutput(SelfQuerySchema);
+
+  return async (state, config) => {
+    console.log('---SELF-QUERY---');
+    if (config?.configurable?.metadata_filter) {
+      console.log('---FILTER PASSED IN CONFIG---');
+      return { metadata_filter: null };
+    }
+
+    const extracted = await selfQueryLlm.invoke([
+      new SystemMessage(selfQuerySystemPrompt),
+      new HumanMessage(state.standalone_question || state.question)
+    ]);
+    const filter: MetadataFilter = {
+      source: extracted.source?.trim() || null,
+      section: extracted.section?.trim() || null,
+      doc_type: extracted.doc_type ?? null,
+    };
+    if (isEmptyFilter(filter)) {
+      console.log('---NO SCOPE---');
+      return { metadata_filter: null };
+    }
+    console.log(`---SCOPE: ${describeFilter(filter)}---`);
+    return { metadata_filter: filter };
+  };
+}
+
+// -----------------------------------------------------------------------------------
+// Question Decomposition -----------------------------------------------------------
+// -----------------------------------------------------------------------------------
+
+/*
+A compound question like "How do checkpointers work and can I use them with human-in-the-loop?"
+is embedded as a single vector, which usually lands close to only one of its halves.
+Let's split it into sub-questions first: `retrieve_documents` searches for each of them in parallel
+and keeps the union of the documents, and `generate_response` answers each of them explicitly.
+
+A question that asks only one thing is left as it is. The number of sub-questions can be capped
+per invocation with `{ configurable: { max_sub_questions: 2 } }`.
+*/
+const MAX_SUB_QUESTIONS = 4;
+
+const DecomposeQuestionSchema = z.object({
+  sub_questions: z.array(z.string()).describe('The standalone sub-questions, or only the question itself if it asks one thing'),
+});
+
+const decomposeQuestionSystemPrompt = `You split a user question about LangGraph into the separate questions it asks.
+- Only split questions that ask several distinct things, otherwise return the question unchanged as the only sub-question
+- Every sub-question must stand on its own: repeat the subject instead of using pronouns like "it" or "them"
+- Don't add anything the user didn't ask
+Return at most {max} sub-questions.`;
+
+export function createDecomposeQuestionNode(llm: BaseChatModel): RagNode {
+  const decomposeQuestionLlm = llm.withStructuredOutput(DecomposeQuestionSchema);
+
+  return async (state, config) => {
+    console.log('---DECOMPOSE QUESTION---');
+    const question = state.standalone_question || state.question;
+    const maxSubQuestions = config?.configurable?.max_sub_questions ?? MAX_SUB_QUESTIONS;
+
+    const decomposition = await decomposeQuestionLlm.invoke([
+      new SystemMessage(decomposeQuestionSystemPrompt.replace('{max}', String(maxSubQuestions))),
+      new HumanMessage(question)
+    ]);
+    const subQuestions = decomposition.sub_questions.map(subQuestion => subQuestion.trim()).filter(Boolean).slice(0, maxSubQuestions);
+
+    // One sub-question means the question isn't compound, so retrieve and answer it as usual
+    if (subQuestions.length < 2) {
+      console.log('---SINGLE QUESTION---');
+      return { sub_questions: [] };
+    }
+    console.log(`---SUB-QUESTIONS: ${subQuestions.join(' | ')}---`);
+    return { sub_questions: subQuestions };
+  };
+}
+
+// -----------------------------------------------------------------------------------
+// Document Grading -----------------------------------------------------------------
+// -----------------------------------------------------------------------------------
+
+// Define the schema for grading documents
+const GradeDocumentsSchema = {
+  type: "object",
+  properties: {
+    relevance_score: {
+      type: "integer",
+      description: "How relevant the document is to the question, from 0 (unrelated) to 10 (directly answers it)"
+    },
+    rationale: {
+      type: "string",
+      description: "One short sentence explaining the score"
+    }
+  },
+  required: ["relevance_score", "rationale"]
+};
+
+/*
+Some LLMs provide support for Structured Outputs, which provides a typing guarantee for the output schema
+of the LLM's response. Here, we can our defined class to specify return type.
+The provided description helps the LLM generate the value for the field.
+
+We can hook this up to our `llm` using `withStructuredOutput`.
+Now, when we invoke our `gradeDocumentsLlm`, we can expect the returned object
+ to contain the expected field.
+*/
+// Each can be overridden per invocation through `config.configurable`
+const MIN_RELEVANCE_SCORE = 5;   // min_relevance_score
+const GRADING_CONCURRENCY = 4;   // grading_concurrency
+const MAX_CONTEXT_DOCUMENTS = 4; // max_context_documents
+
+const gradeDocumentsSystemPrompt = `You are a grader assessing relevance of a retrieved document to a user question.
+If the document contains keyword(s) or semantic meaning related to the user question, grade it as relevant.
+It does not need to be a stringent test. The goal is to filter out erroneous retrievals.
+Give a relevance score from 0 (unrelated) to 10 (directly answers the question),
+and a one sentence rationale for the score.`;
+const gradeDocumentsPrompt = 'Here is the retrieved document: \n\n {document} \n\n Here is the user question: \n\n {question}';
+
+const gradeDocumentsWithChatHistorySystemPrompt = `You are a grader assessing relevance of a retrieved document to a conversation between a user and an AI assistant, and user's latest question.
+If the document contains keyword(s) or semantic meaning related to the user question, definitely grade it as relevant.
+It does not need to be a stringent test. The goal is to filter out erroneous retrievals that are not relevant at all.
+Give a relevance score from 0 (unrelated) to 10 (directly answers the question),
+and a one sentence rationale for the score.`;
+const gradeDocumentsWithChatHistoryPrompt = 'Here is the retrieved document: \n\n {document} \n\n Here is the conversation so far: \n\n {conversation} \n\n Here is the user question: \n\n {question}';
+
+export function createGradeDocumentsNode(llm: BaseChatModel, { withChatHistory = false }: ChatHistoryOptions = {}): RagNode {
+  const gradeDocumentsLlm = llm.withStructuredOutput(GradeDocumentsSchema);
+  const systemPrompt = withChatHistory ? gradeDocumentsWithChatHistorySystemPrompt : gradeDocumentsSystemPrompt;
+  const prompt = withChatHistory ? gradeDocumentsWithChatHistoryPrompt : gradeDocumentsPrompt;
+
+  return async (state, config) => {
+    console.log('---GRADE DOCUMENTS---');
+    const question = state.standalone_question || state.question;
+    const documents = state.documents;
+    const conversation = formatConversation(state);
+
+    const minRelevanceScore = config?.configurable?.min_relevance_score ?? MIN_RELEVANCE_SCORE;
+    const maxConcurrency = config?.configurable?.grading_concurrency ?? GRADING_CONCURRENCY;
+
+    // Score every doc concurrently, with at most `maxConcurrency` grader calls in flight
+    const scores = await gradeDocumentsLlm.batch(
+      documents.map(doc => [
+        new SystemMessage(systemPrompt),
+        new HumanMessage(prompt
+          .replace('{document}', doc.pageContent)
+          .replace('{question}', question)
+          .replace('{conversation}', conversation))
+      ]),
+      { maxConcurrency }
+    );
+
+    // Keep the score and rationale in metadata, so that reranking and evals can inspect them
+    const scoredDocs = documents.map((doc, index) => new Document({
+      pageContent: doc.pageContent,
+      metadata: {
+        ...doc.metadata,
+        relevance_score: scores[index].relevance_score,
+        relevance_rationale: scores[index].rationale,
+      },
+    }));
+
+    const filteredDocs = scoredDocs.filter(doc => {
+      const relevant = doc.metadata.relevance_score >= minRelevanceScore;
+      console.log(`---GRADE: DOCUMENT ${relevant ? 'RELEVANT' : 'NOT RELEVANT'} (${doc.metadata.relevance_score}/10)---`);
+      return relevant;
+    });
+    return { documents: filteredDocs };
+  };
+}
+
+/*
+Now that every document has a score, we can order what's left. The rerank node sorts the relevant
+documents from most to least relevant, and keeps only the top `max_context_documents`,
+so the LLM sees the best context first.
+*/
+export async function rerankDocuments(state: RagGraphState, config?: RunnableConfig): Promise<Partial<RagGraphState>> {
+  console.log('---RERANK DOCUMENTS---');
+  const maxContextDocuments = config?.configurable?.max_context_documents ?? MAX_CONTEXT_DOCUMENTS;
+  const reranked = [...state.documents]
+    .sort((a, b) => (b.metadata.relevance_score ?? 0) - (a.metadata.relevance_score ?? 0))
+    .slice(0, maxContextDocuments);
+  return { documents: reranked };
+}
+
+/* Defining Edges
+Edges define how your agentic applications progresses from each Node to the next Node.
+- Normal Edges are used if you want to *always* go from, for example, `node_1` to `node_2`.
+- Conditional Edges are used want to *optionally* route between nodes.
+
+Conditional edges are implemented as functions that return the next node to visit based upon some logic.
+Note that these functions often use values from our graph's State to determine how to traverse.
+
+Let's make sure that at least some documents are relevant if we are going to respond to the user!
+If none are, we either rewrite the query and search again, or give up once the rewrites are exhausted
+(or immediately, when query rewriting is turned off).
+*/
+export function createDecideToGenerate({ queryRewrite = false }: { queryRewrite?: boolean } = {}) {
+  return (state: RagGraphState, config?: RunnableConfig): string => {
+    console.log('---ASSESS GRADED DOCUMENTS---');
+    const filteredDocuments = state.documents;
+    const maxQueryRewrites = queryRewrite ? config?.configurable?.max_query_rewrites ?? MAX_QUERY_REWRITES : 0;
+
+    if (!filteredDocuments.length && state.query_rewrites.length < maxQueryRewrites) {
+      console.log('---DECISION: ALL DOCUMENTS ARE NOT RELEVANT TO QUESTION, REWRITE QUERY---');
+      return 'none relevant';
+    } else if (!filteredDocuments.length) {
+      console.log('---DECISION: ALL DOCUMENTS ARE NOT RELEVANT TO QUESTION, NO MORE REWRITES---');
+      return 'rewrites exhausted';
+    } else {
+      // We have relevant documents, so generate answer
+      console.log('---DECISION: GENERATE---');
+      return 'some relevant';
+    }
+  };
+}
+
+// -----------------------------------------------------------------------------------
+// Query Rewriting ------------------------------------------------------------------
+// -----------------------------------------------------------------------------------
+
+/*
+If none of the documents are relevant, the problem is often the question rather than the docs.
+Users write acronyms ("HITL"), use their own vocabulary ("pause the agent" instead of "interrupt"),
+or ask several things at once. Let's rewrite the question into better search queries and retry retrieval,
+up to `max_query_rewrites` times. Every rewrite is recorded in State, so we can see what was tried.
+
+The number of rewrites can be tuned per invocation, without changing the graph,
+because nodes and edges also receive the run's config as their second argument:
+
+`graph.invoke({ question }, { configurable: { max_query_rewrites: 1 } })`
+*/
+const MAX_QUERY_REWRITES = 2;
+
+const RewriteQuerySchema = z.object({
+  queries: z.array(z.string()).describe('One to three standalone search queries for the LangGraph documentation'),
+});
+
+const rewriteQuerySystemPrompt = `You are a question re-writer that converts a user question into better search queries
+for the LangGraph documentation. Our first search did not find any relevant documents.
+- Expand acronyms and abbreviations (ex. HITL -> human-in-the-loop, RAG -> retrieval augmented generation)
+- Use LangGraph terminology where it applies (ex. state, nodes, edges, checkpointer, thread, interrupt, Command, subgraph)
+- If the question asks several things, split it into one query per ask
+- Don't repeat queries that were already tried
+Return between one and three queries.`;
+const rewriteQueryPrompt = 'Here is the user question: \n\n {question} \n\n Queries already tried: \n\n {tried}';
+
+export function createTransformQueryNode(llm: BaseChatModel): RagNode {
+  const rewriteQueryLlm = llm.withStructuredOutput(RewriteQuerySchema);
+
+  return async (state) => {
+    console.log('---TRANSFORM QUERY---');
+    const question = state.standalone_question || state.question;
+    const tried = [question, ...state.query_rewrites.flatMap(rewrite => rewrite.queries)];
+
+    const rewriteQueryPromptFormatted = rewriteQueryPrompt
+      .replace('{question}', question)
+      .replace('{tried}', tried.join('\n'));
+
+    const rewrite = await rewriteQueryLlm.invoke([
+      new SystemMessage(rewriteQuerySystemPrompt),
+      new HumanMessage(rewriteQueryPromptFormatted)
+    ]);
+    const queries = rewrite.queries.slice(0, 3);
+    console.log(`---REWRITTEN QUERIES: ${queries.join(' | ')}---`);
+
+    return {
+      search_queries: queries,
+      query_rewrites: [...state.query_rewrites, { attempt: state.query_rewrites.length + 1, queries }],
+    };
+  };
+}
+
+// When the rewrites are exhausted, answer gracefully instead of returning an empty generation
+export async function noRelevantDocuments(state: RagGraphState): Promise<Partial<RagGraphState>> {
+  console.log('---NO RELEVANT DOCUMENTS---');
+  return {
+    generation: "I couldn't find this in the LangGraph docs. Try rephrasing your question, " +
+      "or check https://langchain-ai.github.io/langgraph/ directly.",
+    citations: [],
+    flagged_sentences: [],
+  };
+}
+
+// -----------------------------------------------------------------------------------
+// Hallucination Checking -----------------------------------------------------------
+// -----------------------------------------------------------------------------------
+
+/*
+Now we are confident that when we generate an answer on documents,
+the documents are relevant to our generation! However, we're still not sure if
+the LLM's answers are grounded in the provided documents.
+
+For sensitive use cases (ex. legal, healthcare, etc.), it is really
+important that your LLM application is not hallucinating.
+Let's add an explicit hallucination grader to gain more confidence!
+
+Rather than a single true / false, our grader judges the generation sentence by sentence.
+This lets us flag exactly which sentences are unsupported by the documents,
+and we also flag any sentence that doesn't cite a document.
+*/
+const gradeHallucinationsSystemPrompt = `You are a grader assessing whether an LLM generation is grounded in / supported by a set of retrieved facts.
+Split the generation into sentences, and give each sentence a binary score true or false.
+True means that the sentence is grounded in / supported by the set of facts. The facts are numbered,
+and the generation cites them inline, ex. [1]: check each sentence against the facts it cites.`;
+const gradeHallucinationsPrompt = 'Set of facts: \n\n {documents} \n\n LLM generation: {generation}';
+
+// Can be overridden per invocation with `{ configurable: { max_generation_attempts } }`
+const ATTEMPTED_GENERATION_MAX = 3;
+
+/*
+Since we want to keep the flagged sentences in our State, grading is a node.
+The node records its verdicts, and a conditional edge then decides what to do with them.
+*/
+export function createGradeHallucinationsNode(llm: BaseChatModel): RagNode {
+  const gradeHallucinationsLlm = llm.withStructuredOutput<SentenceGrades>(GradeSentencesSchema);
+
+  return async (state) => {
+    console.log('---CHECK HALLUCINATIONS---');
+    const documents = state.documents;
+    const generation = state.generation;
+
+    const formattedDocs = formatDocumentsForCitation(documents);
+
+    const gradeHallucinationsPromptFormatted = gradeHallucinationsPrompt
+      .replace('{documents}', formattedDocs)
+      .replace('{generation}', generation);
+
+    const grades = await gradeHallucinationsLlm.invoke([
+      new SystemMessage(gradeHallucinationsSystemPrompt),
+      new HumanMessage(gradeHallucinationsPromptFormatted)
+    ]);
+
+    const flaggedSentences = flagSentences(generation, grades);
+    for (const flag of flaggedSentences) {
+      console.log(`---FLAGGED (${flag.reason.toUpperCase()}): ${flag.sentence}---`);
+    }
+
+    // Keep every attempt and its verdicts, so we can fall back to the best one
+    const attempt: GenerationAttempt = {
+      attempt: state.attempted_generations,
+      generation,
+      citations: state.citations,
+      flagged_sentences: flaggedSentences,
+      supported_ratio: supportedRatio(grades),
+    };
+    return {
+      flagged_sentences: flaggedSentences,
+      generation_attempts: [...state.generation_attempts, attempt],
+    };
+  };
+}
+
+/*
+Let's add an edge function that acts on the grader's verdicts.
+If any sentence is unsupported, we'll ask the LLM to re-generate the response,
+if everything is grounded, we can go ahead and return the answer to the user!
+Uncited sentences are only flagged for the user, they don't trigger a re-generation.
+*/
+export function decideIfGrounded(state: RagGraphState, config?: RunnableConfig): string {
+  const attemptedGenerations = state.attempted_generations;
+  const maxGenerationAttempts = config?.configurable?.max_generation_attempts ?? ATTEMPTED_GENERATION_MAX;
+  const grade = !state.flagged_sentences.some(flag => flag.reason === 'unsupported');
+
+  // Check hallucination
+  if (grade) {
+    console.log('---DECISION: GENERATION IS GROUNDED IN DOCUMENTS---');
+    return 'supported';
+  } else if (attemptedGenerations >= maxGenerationAttempts) {
+    console.log('---DECISION: TOO MANY ATTEMPTS, FALL BACK---');
+    return 'attempts exhausted';
+  } else {
+    console.log('---DECISION: GENERATION IS NOT GROUNDED IN DOCUMENTS, RE-TRY---');
+    return 'not supported';
+  }
+}
+
+/*
+Instead of throwing when we run out of attempts (which would kill the run, and leave a
+checkpointed thread stuck mid-way), we fall back gracefully. We return the attempt the grader
+liked best, flagged as low-confidence. If no sentence of any attempt was supported,
+we refuse to answer rather than return a hallucination.
+*/
+export async function fallbackResponse(state: RagGraphState): Promise<Partial<RagGraphState>> {
+  console.log('---FALLBACK RESPONSE---');
+  const best = selectBestAttempt(state.generation_attempts);
+
+  if (!best || best.supported_ratio === 0) {
+    console.log('---FALLBACK: REFUSE TO ANSWER---');
+    return {
+      generation: "I'm sorry, I couldn't produce an answer that is supported by the LangGraph docs.",
+      citations: [],
+      flagged_sentences: [],
+      low_confidence: true,
+    };
+  }
+
+  console.log(`---FALLBACK: RETURN ATTEMPT ${best.attempt} AS LOW-CONFIDENCE---`);
+  return {
+    generation: best.generation,
+    citations: best.citations,
+    flagged_sentences: best.flagged_sentences,
+    low_confidence: true,
+  };
+}
+
+// -----------------------------------------------------------------------------------
+// Human-in-the-Loop Review ---------------------------------------------------------
+// -----------------------------------------------------------------------------------
+
+/*
+When building human-in-the-loop into Python programs, one common way to do this is with the input function.
+With this, your program pauses, a text box pops up in your terminal, and whatever you type
+is then used as the response to that function. You use it like the below:
+
+`response = input("Your question here")`
+
+We've tried to emulate this developer experience by adding a new function to LangGraph: interrupt.
+You can use this in much the same way as input:
+
+`response = interrupt("Your question here")`
+
+This is designed to work in production settings. When you do this, it will pause execution of the graph,
+mark the thread you are running as interrupted, and put whatever you passed as an input to
+interrupt into the persistence layer. This way, you can check the thread status,
+see that it's interrupted, check the message, and then based on that invoke the graph again
+(in a special way) to pass your response back in:
+
+`graph.invoke(Command(resume="Your response here"), thread)`
+
+Note that it doesn't function exactly the same as input
+(it reruns any work in that node done before this is called, but no previous nodes).
+This ensures interrupted threads don't take up any resources (beyond storage space),
+and can be resumed many months later, on a different machine, etc.
+
+Rather than asking an open-ended question, our review is structured. Once we have a draft answer
+that passed (or fell back from) hallucination checking, we interrupt with everything the reviewer needs:
+the question, the retrieved documents, and the draft answer. The reviewer resumes the graph
+with one of a few typed actions:
+
+- `{ action: 'approve' }`: accept the draft answer
+- `{ action: 'edit_answer', answer }`: replace the draft answer with their own (its citations and flags are dropped,
+  since they described the draft)
+- `{ action: 'add_context', context }`: re-generate the answer with extra context
+- `{ action: 'reject_documents', document_ids }`: drop documents (numbered as in the draft's citations) and re-generate
+- `{ action: 're_retrieve', query? }`: search again, optionally with a new query
+
+A plain string is treated as `add_context`. Since the node decides where to go next,
+it returns a `Command` that both updates State and routes to the next node.
+
+Automated runs can skip the review entirely with `{ configurable: { skip_human_review: true } }`.
+*/
+const ReviewActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('approve') }),
+  z.object({ action: z.literal('edit_answer'), answer: z.string() }),
+  z.object({ action: z.literal('add_context'), context: z.string() }),
+  z.object({ action: z.literal('reject_documents'), document_ids: z.array(z.number()) }),
+  z.object({ action: z.literal('re_retrieve'), query: z.string().optional() }),
+]);
+
+export type ReviewAction = z.infer<typeof ReviewActionSchema>;
+
+// The interrupt payload shown to the reviewer
+export interface ReviewRequest {
+  question: string;
+  standalone_question: string;
+  documents: { id: number; source: string; heading: string; content: string; relevance_score?: number }[];
+  draft_answer: string;
+  citations: Citation[];
+  flagged_sentences: FlaggedSentence[];
+  low_confidence: boolean;
+  allowed_actions: ReviewAction['action'][];
+}
+
+function parseReviewAction(resume: unknown): ReviewAction {
+  if (typeof resume === 'string') {
+    return { action: 'add_context', context: resume };
+  }
+  const parsed = ReviewActionSchema.safeParse(resume);
+  if (!parsed.success) {
+    throw new Error(`Invalid review action: ${JSON.stringify(resume)}. ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export interface HumanReviewOptions {
+  // Where to go once the answer is approved or edited, ex. 'configure_memory'
+  approvedNode?: string;
+}
+
+export function createHumanReviewNode({ approvedNode = END }: HumanReviewOptions = {}) {
+  return async (state: RagGraphState, config?: RunnableConfig): Promise<Command> => {
+    console.log('---HUMAN REVIEW---');
+    if (config?.configurable?.skip_human_review) {
+      console.log('---REVIEW SKIPPED---');
+      return new Command({ goto: approvedNode });
+    }
+
+    const request: ReviewRequest = {
+      question: state.question,
+      standalone_question: state.standalone_question,
+      documents: state.documents.map((doc, index) => ({
+        id: index + 1,
+        source: String(doc.metadata.source ?? ''),
+        heading: String(doc.metadata.heading_path ?? ''),
+        content: doc.pageContent,
+        relevance_score: doc.metadata.relevance_score,
+      })),
+      draft_answer: state.generation,
+      citations: state.citations,
+      flagged_sentences: state.flagged_sentences,
+      low_confidence: state.low_confidence,
+      allowed_actions: ['approve', 'edit_answer', 'add_context', 'reject_documents', 're_retrieve'],
+    };
+    const action = parseReviewAction(interrupt(request));
+    console.log(`---REVIEW ACTION: ${action.action.toUpperCase()}---`);
+
+    // Any action that leads to a new generation gets a fresh set of attempts
+    const retry = {
+      review_history: [...state.review_history, action],
+      attempted_generations: 0,
+      generation_attempts: [],
+      low_confidence: false,
+    };
+
+    switch (action.action) {
+      case 'approve':
+        return new Command({ goto: approvedNode, update: { review_history: retry.review_history } });
+      case 'edit_answer':
+        return new Command({
+          goto: approvedNode,
+          // The citations and flagged sentences map the draft's sentences, not the reviewer's text
+          update: {
+            generation: action.answer,
+            citations: [],
+            flagged_sentences: [],
+            low_confidence: false,
+            review_history: retry.review_history,
+          },
+        });
+      case 'add_context':
+        return new Command({
+          goto: 'generate_response',
+          update: { ...retry, additional_context: [state.additional_context, action.context].filter(Boolean).join('\n') },
+        });
+      case 'reject_documents': {
+        const rejected = new Set(action.document_ids);
+        const documents = state.documents.filter((doc, index) => !rejected.has(index + 1));
+        // If every document was rejected, there is nothing left to answer from, so search again
+        return new Command({
+          goto: documents.length ? 'generate_response' : 'retrieve_documents',
+          update: { ...retry, documents },
+        });
+      }
+      case 're_retrieve':
+        return new Command({
+          goto: 'retrieve_documents',
+          update: {
+            ...retry,
+            // A new query replaces the sub-questions for this search, but each part is still answered
+            search_queries: action.query ? [action.query] : [],
+            standalone_question: action.query || state.standalone_question,
+          },
+        });
+    }
+  };
+}
+
+// -----------------------------------------------------------------------------------
+// Semantic Answer Cache ------------------------------------------------------------
+// -----------------------------------------------------------------------------------
+
+/*
+Before doing any work, `check_answer_cache` looks the (standalone) question up in the answer cache
+(see ```rag-agents/answer-cache.ts```). On a hit, it returns the cached answer, citations and documents,
+and skips straight to the reviewer, or to the end of the turn. On a miss, the graph runs as usual,
+and `update_answer_cache` stores the final answer, unless it is a low confidence fallback
+or not based on any document (no relevant document was found).
+
+The cache is shared by every thread, and an answer is looked up by its question and its scope: the chat model
+answering the run, and the `metadata_filter` of the run's config. So we only store answers that depend on nothing else:
+answers generated without chat history or a running summary, without a filter extracted by `self_query` (the cache
+is checked before it runs), without context added by the reviewer, and approved by the reviewer as they were.
+
+Either way, `answer_cache` in State tells us whether the answer was cached. Tune the similarity threshold
+per run with `{ configurable: { answer_cache_threshold: 0.9 } }`, or bypass the cache with `use_answer_cache: false`.
+*/
+async function resolveAnswerCache(cache: AnswerCacheSource, config?: RunnableConfig): Promise<AnswerCache> {
+  return typeof cache === 'function' ? cache(config) : cache;
+}
+
+// The chat model answering the run, and the filter given in its config
+function answerCacheScope(llm: BaseChatModel, config?: RunnableConfig): string {
+  const model = llm instanceof ConfigurableChatModel ? llm.resolveSettings(config) : llm._llmType();
+  return JSON.stringify({ model, metadata_filter: config?.configurable?.metadata_filter ?? null });
+}
+
+export interface CheckAnswerCacheOptions {
+  // The model generating the answers, whose settings are part of the cache scope
+  llm: BaseChatModel;
+  // Where to go on a hit, ex. 'configure_memory'
+  hitNode: string;
+  // Where to go on a miss, ex. 'retrieve_documents'
+  missNode: string;
+}
+
+export function createCheckAnswerCacheNode(cache: AnswerCacheSource, { llm, hitNode, missNode }: CheckAnswerCacheOptions) {
+  return async (state: RagGraphState, config?: RunnableConfig): Promise<Command> => {
+    console.log('---CHECK ANSWER CACHE---');
+    const miss: AnswerCacheStatus = { hit: false, similarity: null, cached_question: null };
+    if (config?.configurable?.use_answer_cache === false) {
+      console.log('---CACHE SKIPPED---');
+      return new Command({ goto: missNode, update: { answer_cache: null } });
+    }
+
+    const question = state.standalone_question || state.question;
+    const threshold = config?.configurable?.answer_cache_threshold ?? ANSWER_CACHE_THRESHOLD;
+    const hit = await (await resolveAnswerCache(cache, config)).lookup(question, answerCacheScope(llm, config), threshold);
+    if (!hit) {
+      console.log('---CACHE MISS---');
+      return new Command({ goto: missNode, update: { answer_cache: miss } });
+    }
+
+    console.log(`---CACHE HIT (${hit.similarity.toFixed(3)}): ${hit.answer.question}---`);
+    return new Command({
+      goto: hitNode,
+      update: {
+        generation: hit.answer.generation,
+        citations: hit.answer.citations,
+        flagged_sentences: hit.answer.flagged_sentences,
+        documents: hit.answer.documents,
+        low_confidence: false,
+        answer_cache: { hit: true, similarity: hit.similarity, cached_question: hit.answer.question },
+      },
+    });
+  };
+}
+
+export function createUpdateAnswerCacheNode(cache: AnswerCacheSource, llm: BaseChatModel): RagNode {
+  return async (state, config) => {
+    // Don't cache answers we aren't confident in, or answers that came from the cache
+    if (state.low_confidence || !state.generation || state.answer_cache?.hit || config?.configurable?.use_answer_cache === false) {
+      return {};
+    }
+    // Nor answers that don't come from any document, ex. when no relevant document was found,
+    // or whose documents were narrowed down by the filter `self_query` extracted, which isn't part of the scope
+    if (!state.documents.length || state.metadata_filter) {
+      return {};
+    }
+    // Nor answers shaped by this thread: its conversation, or the reviewer's context and edits
+    const reviewed = state.review_history.some(action => action.action !== 'approve');
+    if (state.messages?.length || state.summary || state.additional_context || reviewed) {
+      console.log('---ANSWER NOT CACHED: DEPENDS ON THE THREAD---');
+      return {};
+    }
+    console.log('---UPDATE ANSWER CACHE---');
+    await (await resolveAnswerCache(cache, config)).store({
+      question: state.standalone_question || state.question,
+      scope: answerCacheScope(llm, config),
+      generation: state.generation,
+      citations: state.citations,
+      flagged_sentences: state.flagged_sentences,
+      documents: state.documents,
+    });
+    return {};
+  };
+}
+
+// -----------------------------------------------------------------------------------
+// Memory Configuration -------------------------------------------------------------
+// -----------------------------------------------------------------------------------
+
+export async function configureMemory(state: RagGraphState): Promise<Partial<RagGraphState>> {
+  console.log('---CONFIGURE MEMORY---');
+  const question = state.question;
+  const generation = state.generation;
+
+  // Add the question and generation to our message history
+  const newMessages = [
+    new HumanMessage(question),
+    new AIMessage(generation)
+  ];
+
+  return {
+    messages: newMessages,
+    attempted_generations: 0,   // Reset this value to 0
+    documents: []    // Reset documents to empty
+  };
+}
+
+// -----------------------------------------------------------------------------------
+// Conversation Summary -------------------------------------------------------------
+// -----------------------------------------------------------------------------------
+
+/*
+Every turn adds two messages, and the conversation is part of the condense, grading and generation prompts,
+so a long-lived thread gets slower and more expensive with every turn.
+
+Once a thread has more than `max_history_messages` messages, the `summarize_conversation` node compresses
+all but the last `keep_recent_messages` into a running `summary`, folding in the previous summary.
+It then removes the summarized messages from State by returning `RemoveMessage`s: the `messagesStateReducer`
+on `messages` deletes the messages with those ids, rather than appending them.
+
+`graph.invoke({ question }, { configurable: { thread_id, max_history_messages: 12, keep_recent_messages: 6 } })`
+*/
+const MAX_HISTORY_MESSAGES = 8;  // max_history_messages
+const KEEP_RECENT_MESSAGES = 4;  // keep_recent_messages
+
+export function createSummarizeConversationNode(llm: BaseChatModel): RagNode {
+  const summarize = createTurnSummarizer(llm);
+
+  return async (state, config) => {
+    const messages = state.messages || [];
+    const maxMessages = config?.configurable?.max_history_messages ?? MAX_HISTORY_MESSAGES;
+    const keepRecent = config?.configurable?.keep_recent_messages ?? KEEP_RECENT_MESSAGES;
+    if (messages.length <= maxMessages) {
+      return {};
+    }
+    console.log('---SUMMARIZE CONVERSATION---');
+
+    // Keep whole turns: the recent messages start with a question
+    let cut = Math.max(0, messages.length - keepRecent);
+    while (cut < messages.length && messages[cut].getType() !== 'human') {
+      cut++;
+    }
+    const summarized = messages.slice(0, cut);
+    if (!summarized.length) {
+      return {};
+    }
+
+    const summary = await summarize(summarized, state.summary);
+    console.log(`---SUMMARIZED ${summarized.length} MESSAGES---`);
+    return {
+      summary,
+      messages: summarized.map(message => new RemoveMessage({ id: message.id! })),
+    };
+  };
+}
@@ -2,35 +2,38 @@ import * as fs from 'fs';
 import * as path from 'path';
 import axios from 'axios';
 import sqlite3 from 'sqlite3';
-import { ChatOpenAI } from '@langchain/openai';
-import { OpenAIEmbeddings } from '@langchain/openai';
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
 import { Document } from "@langchain/core/documents"; // Optional: if you want to split Document objects
-import { PuppeteerWebBaseLoader } from "@langchain/community/document_loaders/web/puppeteer";
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { BaseRetrieverInterface } from '@langchain/core/retrievers';
+import { RunnableConfig } from '@langchain/core/runnables';
 import { MemoryVectorStore } from "langchain/vectorstores/memory";
+import { createChatModel, createEmbeddingModel, EmbeddingModelSettings, resolveEmbeddingSettings } from '../shared/models';
+import { isReplaying } from '../shared/cassette';
+import { CorpusSource, getCorpusSourcesFromEnv, loadCorpus } from './corpus';
+import { HybridRetriever, KeywordRetriever } from './hybrid-retriever';
+import { ParentSectionRetriever, splitDocumentsByStructure } from './chunking';
+import { AnswerCache } from './answer-cache';
+import { MetadataFilter, MetadataFilterRetriever, matchesMetadataFilter } from './metadata-filter';
+import { refreshSources } from './docs-sources';
+import { DEFAULT_INDEX_PATH, checkEmbeddingModel, closeVectorIndex, countChunks, listSources, loadVectorStore, openVectorIndex, syncVectorIndex } from './vector-index';
 
-// NOTE: Configure the LLM that you want to use
-export const llm = new ChatOpenAI({
-  modelName: 'gpt-4o',
-  temperature: 0,
-});
-
-// Alternative models (uncomment to use):
-// import { ChatAnthropic } from '@langchain/anthropic';
-// import { ChatVertexAI } from '@langchain/google-vertexai';
-// export const llm = new ChatAnthropic({
-//   modelName: 'claude-3-5-sonnet-20240620',
-//   temperature: 0,
-// });
-// export const llm = new ChatVertexAI({
-//   modelName: 'gemini-1.5-flash-002',
-//   temperature: 0,
-// });
-
-// NOTE: Configure the embedding model that you want to use
-export const embeddingModel = new OpenAIEmbeddings();
-
-const LANGGRAPH_DOCS = [
+/*
+NOTE: The LLM is selected per run through `config.configurable`, with defaults from your .env file,
+ex. `{ configurable: { model_provider: 'anthropic', model: 'claude-3-5-sonnet-20240620' } }`.
+See ```shared/models.ts``` for every setting.
+
+The graders can be configured independently of the LLM that writes the answer:
+`document_grader_model` / `hallucination_grader_model`, or `grader_model` for both.
+*/
+export const llm = createChatModel();
+export const documentGraderLlm = createChatModel({ configPrefix: 'document_grader', fallbackPrefixes: ['grader'] });
+export const hallucinationGraderLlm = createChatModel({ configPrefix: 'hallucination_grader', fallbackPrefixes: ['grader'] });
+
+/*
+The built-in corpus, used until pages are registered with the ingestion CLI (see ```rag-agents/ingest.ts```),
+which discovers them from the docs sitemap instead of this hand-maintained list.
+*/
+export const LANGGRAPH_DOCS = [
   'https://langchain-ai.github.io/langgraph/',
   'https://langchain-ai.github.io/langgraph/tutorials/customer-support/customer-support/',
   'https://langchain-ai.github.io/langgraph/tutorials/chatbots/information-gather-prompting/',
@@ -51,41 +54,183 @@ const LANGGRAPH_DOCS = [
   'https://langchain-ai.github.io/langgraph/concepts/faq/',
 ];
 
-export async function getLanggraphDocsRetriever() {
-  console.log('Starting document loading...');
-  
-  // Load the documents and create in-memory vectorstore
-  const docsPromises = LANGGRAPH_DOCS.map(async (url, index) => {
-    console.log(`Loading document ${index + 1}/${LANGGRAPH_DOCS.length}: ${url}`);
-    try {
-      const docs = await new PuppeteerWebBaseLoader(url).load();
-      console.log(`Successfully loaded ${docs.length} documents from ${url}`);
-      return docs;
-    } catch (error) {
-      console.error(`Failed to load ${url}:`, error);
-      return [];
-    }
+export interface HybridRetrievalOptions {
+  // Number of fused documents returned to the graph
+  k: number;
+  // Number of candidates each retriever contributes before fusion
+  vectorK: number;
+  keywordK: number;
+  // Reciprocal rank fusion weights, set keywordWeight to 0 for pure embedding similarity
+  vectorWeight: number;
+  keywordWeight: number;
+}
+
+const DEFAULT_HYBRID_RETRIEVAL: HybridRetrievalOptions = {
+  k: 4,
+  vectorK: 8,
+  keywordK: 8,
+  vectorWeight: 0.5,
+  keywordWeight: 0.5,
+};
+
+// Combine embedding similarity with BM25 keyword search over the same chunks, optionally only the chunks matching a filter
+function createHybridRetriever(vectorstore: MemoryVectorStore, options: Partial<HybridRetrievalOptions> = {}, filter?: MetadataFilter) {
+  const { k, vectorK, keywordK, vectorWeight, keywordWeight } = { ...DEFAULT_HYBRID_RETRIEVAL, ...options };
+  const matches = filter ? (doc: Document) => matchesMetadataFilter(doc, filter) : undefined;
+  if (!keywordWeight) {
+    return vectorstore.asRetriever({ k, filter: matches });
+  }
+
+  const chunks = vectorstore.memoryVectors
+    .map(vector => new Document({
+      pageContent: vector.content,
+      metadata: vector.metadata,
+    }))
+    .filter(chunk => !matches || matches(chunk));
+  return new HybridRetriever({
+    retrievers: [
+      vectorstore.asRetriever({ k: vectorK, filter: matches }),
+      new KeywordRetriever({ docs: chunks, k: keywordK }),
+    ],
+    weights: [vectorWeight, keywordWeight],
+    k,
   });
-  
-  const docsArrays = await Promise.all(docsPromises);
-  const docsList = docsArrays.flat();
-  
-  console.log(`Total documents loaded: ${docsList.length}`);
-
-  const textSplitter = new RecursiveCharacterTextSplitter({
-    chunkSize: 200,
-    chunkOverlap: 0,
+}
+
+export interface LanggraphDocsRetrieverOptions {
+  // Where to load the corpus from, defaults to the pages registered with the ingestion CLI, or else `getCorpusSourcesFromEnv(LANGGRAPH_DOCS)`
+  sources?: CorpusSource[];
+  // SQLite file holding the embedded chunks, defaults to `RAG_INDEX_PATH` or .rag-index/langgraph-docs.sqlite
+  indexPath?: string;
+  // Re-load the corpus and sync the index even if it already has chunks
+  refresh?: boolean;
+  // Weights and k for the hybrid BM25 + vector retriever
+  retrieval?: Partial<HybridRetrievalOptions>;
+  // Target chunk size in characters for the structure-aware splitter
+  chunkSize?: number;
+  // Match on small chunks but return their enclosing sections, defaults to true
+  parentSections?: boolean;
+  // Embedding model for the index, defaults to the one configured in your .env file
+  embeddings?: EmbeddingsInterface;
+}
+
+function createDocsRetriever(vectorstore: MemoryVectorStore, options: LanggraphDocsRetrieverOptions) {
+  // Retrieval can be narrowed down with a metadata filter, see ```rag-agents/metadata-filter.ts```
+  return new MetadataFilterRetriever({
+    build: filter => {
+      if (options.parentSections === false) {
+        return createHybridRetriever(vectorstore, options.retrieval, filter);
+      }
+      // Several chunks may collapse into the same section, so over-fetch chunks
+      const k = options.retrieval?.k ?? DEFAULT_HYBRID_RETRIEVAL.k;
+      return new ParentSectionRetriever({
+        retriever: createHybridRetriever(vectorstore, { ...options.retrieval, k: k * 3 }, filter),
+        k,
+      });
+    },
   });
+}
+
+export async function getLanggraphDocsRetriever(options: LanggraphDocsRetrieverOptions = {}) {
+  const index = await openVectorIndex(options.indexPath ?? DEFAULT_INDEX_PATH);
+  const refresh = options.refresh ?? process.env.RAG_REFRESH_INDEX === 'true';
+  const embeddingModel = options.embeddings ?? await createEmbeddingModel();
+
+  try {
+    // Load the existing index if present, so we don't have to crawl and embed again
+    if (!refresh && await countChunks(index) > 0) {
+      // Queries must be embedded with the model the stored vectors were built with
+      await checkEmbeddingModel(index, embeddingModel);
+      const vectorstore = await loadVectorStore(index, embeddingModel);
+      console.log(`Loaded ${vectorstore.memoryVectors.length} chunks from the persisted index`);
+      return createDocsRetriever(vectorstore, options);
+    }
+
+    // Cassettes don't record page fetches, so a replay can only run on the index the run was recorded with
+    if (isReplaying()) {
+      throw new Error(`Replaying a cassette needs a pre-built index, but ${options.indexPath ?? DEFAULT_INDEX_PATH} is empty${refresh ? ' or RAG_REFRESH_INDEX is set' : ''}. Build the index before recording, and replay with the same index file.`);
+    }
+
+    // Pages registered with the ingestion CLI are refreshed page by page, only re-fetching stale ones
+    if (!options.sources && (await listSources(index)).length) {
+      await refreshSources(index, embeddingModel, { chunkSize: options.chunkSize });
+      const vectorstore = await loadVectorStore(index, embeddingModel);
+      console.log(`Loaded ${vectorstore.memoryVectors.length} chunks of the registered pages`);
+      return createDocsRetriever(vectorstore, options);
+    }
+
+    console.log('Starting document loading...');
+    
+    // Load the documents from the configured sources
+    const sources = options.sources ?? getCorpusSourcesFromEnv(LANGGRAPH_DOCS);
+    const docsList = await loadCorpus(sources);
+    
+    console.log(`Total documents loaded: ${docsList.length}`);
+    if (!docsList.length) {
+      // Don't wipe a previously built index because every source failed to load
+      throw new Error('No documents were loaded from the configured corpus sources.');
+    }
+
+    // Split along headings, paragraphs and code blocks, keeping the heading path in metadata
+    const docSplits = splitDocumentsByStructure(docsList, { chunkSize: options.chunkSize ?? 400 });
+    console.log(`Documents split into ${docSplits.length} chunks`);
+    
+    // Only embed new or changed chunks, and drop chunks from removed sources
+    const result = await syncVectorIndex(index, docSplits, embeddingModel);
+    console.log(`Index synced: ${result.added} added, ${result.removed} removed, ${result.unchanged} unchanged (${result.updated} with new metadata)`);
+
+    const vectorstore = await loadVectorStore(index, embeddingModel);
+    console.log('Vectorstore loaded from the persisted index');
+    return createDocsRetriever(vectorstore, options);
+  } finally {
+    await closeVectorIndex(index);
+  }
+}
+
+/*
+Runs can also pick their embedding model through `config.configurable` (see ```shared/models.ts```).
+Vectors from different embedding models can't be compared, so every embedding model other than
+the default one gets its own index file next to the default index, ex. `langgraph-docs.openai-text-embedding-3-large.sqlite`.
+*/
+const configuredRetrievers = new Map<string, Promise<BaseRetrieverInterface>>();
+
+function indexPathForEmbeddings(settings: EmbeddingModelSettings): string {
+  if (JSON.stringify(settings) === JSON.stringify(resolveEmbeddingSettings())) {
+    return DEFAULT_INDEX_PATH;
+  }
+  const slug = [settings.provider, settings.model ?? 'default'].join('-').replace(/[^a-zA-Z0-9.-]+/g, '-');
+  return DEFAULT_INDEX_PATH.replace(/(\.sqlite)?$/, `.${slug}.sqlite`);
+}
+
+// Create the docs retriever for the run's embedding model once, and reuse it for later runs
+export function getConfiguredDocsRetriever(config?: RunnableConfig): Promise<BaseRetrieverInterface> {
+  const settings = resolveEmbeddingSettings(config?.configurable);
+  const key = JSON.stringify(settings);
+  if (!configuredRetrievers.has(key)) {
+    const retriever = createEmbeddingModel(settings).then(embeddings =>
+      getLanggraphDocsRetriever({ embeddings, indexPath: indexPathForEmbeddings(settings) }));
+    // Don't cache a failure, so the next run can try again
+    configuredRetrievers.set(key, retriever.catch(error => {
+      configuredRetrievers.delete(key);
+      throw error;
+    }));
+  }
+  return configuredRetrievers.get(key)!;
+}
+
+const configuredAnswerCaches = new Map<string, Promise<AnswerCache>>();
 
-  const docSplits = await textSplitter.splitDocuments(docsList);
-  console.log(`Documents split into ${docSplits.length} chunks`);
-  
-  // Use in-memory vectorstore
-  const vectorstore = await MemoryVectorStore.fromDocuments(
-    docSplits,
-    embeddingModel
-  );
-
-  console.log('In-memory vectorstore created');
-  return vectorstore.asRetriever({ k: 4 });
-}
\ No newline at end of file
+// The answer cache stored in the index of the run's embedding model
+export function getConfiguredAnswerCache(config?: RunnableConfig): Promise<AnswerCache> {
+  const settings = resolveEmbeddingSettings(config?.configurable);
+  const key = JSON.stringify(settings);
+  if (!configuredAnswerCaches.has(key)) {
+    const cache = createEmbeddingModel(settings).then(embeddings =>
+      new AnswerCache({ embeddings, indexPath: indexPathForEmbeddings(settings) }));
+    configuredAnswerCaches.set(key, cache.catch(error => {
+      configuredAnswerCaches.delete(key);
+      throw error;
+    }));
+  }
+  return configuredAnswerCaches.get(key)!;
+}
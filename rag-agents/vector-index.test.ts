@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Document } from '@langchain/core/documents';
+import { HashEmbeddings } from '../shared/testing';
+import { splitDocumentByStructure } from './chunking';
+import { checkEmbeddingModel, closeVectorIndex, countChunks, loadVectorStore, openVectorIndex, readIndexVersion, replaceSourceChunks, syncVectorIndex } from './vector-index';
+
+const SOURCE = 'https://example.com/docs/persistence';
+
+// Two sections; "Checkpointers" is split into two chunks
+const PAGE = `# Persistence
+
+Graphs persist their state between runs.
+
+## Checkpointers
+
+Checkpointers save a snapshot of the state at every step.
+
+Threads group the snapshots of one conversation.
+
+## Stores
+
+Stores keep data across threads.`;
+
+function split(page: string): Document[] {
+  return splitDocumentByStructure(new Document({ pageContent: page, metadata: { source: SOURCE } }), { chunkSize: 70 });
+}
+
+// The stored metadata of every chunk, by content
+async function storedMetadata(index: Awaited<ReturnType<typeof openVectorIndex>>): Promise<Map<string, Record<string, any>>> {
+  const vectorstore = await loadVectorStore(index, new HashEmbeddings());
+  return new Map(vectorstore.memoryVectors.map(vector => [vector.content, vector.metadata]));
+}
+
+function assertMatchesFreshSplit(stored: Map<string, Record<string, any>>, chunks: Document[]) {
+  assert.equal(stored.size, chunks.length);
+  for (const chunk of chunks) {
+    const metadata = stored.get(chunk.pageContent);
+    assert.ok(metadata, `missing chunk: ${chunk.pageContent}`);
+    assert.equal(metadata.section_id, chunk.metadata.section_id);
+    assert.equal(metadata.heading_path, chunk.metadata.heading_path);
+    assert.equal(metadata.parent_content, chunk.metadata.parent_content);
+  }
+}
+
+test('syncing an edited section rewrites the metadata of its unchanged chunks', async () => {
+  const index = await openVectorIndex(':memory:');
+  try {
+    const embeddings = new HashEmbeddings();
+    await syncVectorIndex(index, split(PAGE), embeddings);
+
+    const edited = PAGE.replace('Threads group the snapshots of one conversation.', 'Threads group the snapshots of a conversation.');
+    const chunks = split(edited);
+    const result = await syncVectorIndex(index, chunks, embeddings);
+
+    // Only the edited paragraph is embedded again
+    assert.equal(result.added, 1);
+    assert.equal(result.removed, 1);
+    const stored = await storedMetadata(index);
+    assertMatchesFreshSplit(stored, chunks);
+    assert.match(stored.get('Checkpointers save a snapshot of the state at every step.')!.parent_content, /snapshots of a conversation/);
+  } finally {
+    await closeVectorIndex(index);
+  }
+});
+
+test('replacing the chunks of a page with a new section moves the section ids of its neighbours', async () => {
+  const index = await openVectorIndex(':memory:');
+  try {
+    const embeddings = new HashEmbeddings();
+    await replaceSourceChunks(index, SOURCE, split(PAGE), embeddings);
+    const before = await storedMetadata(index);
+
+    const chunks = split(PAGE.replace('## Checkpointers', '## Overview\n\nThere are two kinds of persistence.\n\n## Checkpointers'));
+    const result = await replaceSourceChunks(index, SOURCE, chunks, embeddings);
+
+    assert.equal(result.added, 1);
+    assert.equal(result.removed, 0);
+    const stored = await storedMetadata(index);
+    assertMatchesFreshSplit(stored, chunks);
+    const stores = 'Stores keep data across threads.';
+    assert.notEqual(stored.get(stores)!.section_id, before.get(stores)!.section_id);
+  } finally {
+    await closeVectorIndex(index);
+  }
+});
+
+test('a rebuild for a new embedding model keeps the old vectors when embedding fails', async () => {
+  const index = await openVectorIndex(':memory:');
+  try {
+    const chunks = split(PAGE);
+    await syncVectorIndex(index, chunks, new HashEmbeddings());
+
+    const failing = new HashEmbeddings({ size: 64 });
+    failing.embedDocuments = async () => { throw new Error('Rate limited'); };
+    await assert.rejects(syncVectorIndex(index, chunks, failing), /Rate limited/);
+
+    assert.equal(await countChunks(index), chunks.length);
+    // The index still belongs to the old model, so it can't be queried with the new one
+    await assert.rejects(checkEmbeddingModel(index, failing), /The index was built with HashEmbeddings:hash-256/);
+  } finally {
+    await closeVectorIndex(index);
+  }
+});
+
+test('rewriting only the metadata of chunks gives the index a new version', async () => {
+  const index = await openVectorIndex(':memory:');
+  try {
+    const embeddings = new HashEmbeddings();
+    await syncVectorIndex(index, split(PAGE), embeddings);
+    const version = await readIndexVersion(index);
+
+    const retitled = split(PAGE).map(chunk => new Document({ pageContent: chunk.pageContent, metadata: { ...chunk.metadata, title: 'Persistence concepts' } }));
+    const result = await syncVectorIndex(index, retitled, embeddings);
+
+    assert.equal(result.added, 0);
+    assert.equal(result.updated, retitled.length);
+    assert.notEqual(await readIndexVersion(index), version);
+  } finally {
+    await closeVectorIndex(index);
+  }
+});
@@ -0,0 +1,362 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import sqlite3 from 'sqlite3';
+import { Document } from '@langchain/core/documents';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { MemoryVectorStore } from 'langchain/vectorstores/memory';
+
+/* READ
+Crawling and embedding the whole corpus on every process start is slow and costs an
+embedding call per chunk. Instead, we persist the embedded chunks to a local SQLite file.
+
+Every chunk is keyed by a hash of its source and content. When we sync the index against
+a freshly loaded corpus, only chunks with a new hash are embedded, and chunks whose hash
+is no longer present (because the page changed or the source was removed) are deleted.
+Chunks whose hash is unchanged keep their vector, but their metadata is rewritten: when a section
+of a page is edited, or moves, the other chunks of the page get its new text (`parent_content`)
+and position (`section_id`), which parent-section retrieval relies on.
+At query time we load the stored vectors into a `MemoryVectorStore`, so retrieval works
+exactly as before.
+
+The same file holds the semantic answer cache (see ```rag-agents/answer-cache.ts```), and the
+registry of web pages managed by the ingestion CLI (see ```rag-agents/ingest.ts```).
+Cached answers were generated from the chunks indexed at the time, so whenever a sync adds or removes
+chunks, or rewrites their metadata, the index gets a new version and the cache is cleared.
+*/
+
+export const DEFAULT_INDEX_PATH = process.env.RAG_INDEX_PATH || path.join('.rag-index', 'langgraph-docs.sqlite');
+
+export interface SyncResult {
+  added: number;
+  removed: number;
+  unchanged: number;
+  // Unchanged chunks whose metadata was rewritten
+  updated: number;
+}
+
+// Promise wrappers around the callback-based sqlite3 API
+function run(db: sqlite3.Database, sql: string, params: any[] = []): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+function all(db: sqlite3.Database, sql: string, params: any[] = []): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows)));
+  });
+}
+
+export function hashChunk(doc: Document): string {
+  return createHash('sha256')
+    .update(String(doc.metadata.source ?? ''))
+    .update('\u0000')
+    .update(doc.pageContent)
+    .digest('hex');
+}
+
+// The unchanged chunks whose stored metadata differs from the incoming chunk
+function staleMetadata(incoming: Map<string, Document>, existing: Map<string, string>): [string, Document][] {
+  return [...incoming.entries()].filter(([hash, doc]) => existing.has(hash) && existing.get(hash) !== JSON.stringify(doc.metadata));
+}
+
+// Identify the embedding model so that vectors from a different model are never mixed
+function embeddingModelId(embeddings: EmbeddingsInterface): string {
+  const model = (embeddings as any).model ?? (embeddings as any).modelName;
+  return `${embeddings.constructor.name}:${model ?? 'default'}`;
+}
+
+export async function openVectorIndex(indexPath: string = DEFAULT_INDEX_PATH): Promise<sqlite3.Database> {
+  if (indexPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+  }
+  const db = await new Promise<sqlite3.Database>((resolve, reject) => {
+    const database = new sqlite3.Database(indexPath, (err) => (err ? reject(err) : resolve(database)));
+  });
+
+  await run(db, `CREATE TABLE IF NOT EXISTS chunks (
+    hash TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    content TEXT NOT NULL,
+    metadata TEXT NOT NULL,
+    embedding TEXT NOT NULL
+  )`);
+  await run(db, 'CREATE INDEX IF NOT EXISTS chunks_source ON chunks (source)');
+  await run(db, 'CREATE TABLE IF NOT EXISTS index_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+  await run(db, `CREATE TABLE IF NOT EXISTS answer_cache (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    question TEXT NOT NULL,
+    embedding TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    index_version TEXT NOT NULL
+  )`);
+  await run(db, `CREATE TABLE IF NOT EXISTS sources (
+    url TEXT PRIMARY KEY,
+    added_at TEXT NOT NULL,
+    fetched_at TEXT,
+    etag TEXT,
+    last_modified TEXT,
+    status TEXT NOT NULL
+  )`);
+  return db;
+}
+
+export function closeVectorIndex(db: sqlite3.Database): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.close((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Identifies the indexed chunks and embedding model, changes whenever a sync changes the index
+export async function readIndexVersion(db: sqlite3.Database): Promise<string> {
+  const rows = await all(db, "SELECT value FROM index_meta WHERE key = 'index_version'");
+  return rows.length ? rows[0].value : '';
+}
+
+// Cached answers cite the title and heading path of their chunks, so a metadata-only change is a new version too
+async function computeIndexVersion(db: sqlite3.Database, modelId: string): Promise<string> {
+  const rows = await all(db, 'SELECT hash, metadata FROM chunks ORDER BY hash');
+  const hash = createHash('sha256').update(modelId);
+  for (const row of rows) {
+    hash.update(row.hash).update(row.metadata);
+  }
+  return hash.digest('hex');
+}
+
+// Answers cached from the previous version of the index may cite chunks that changed
+async function updateIndexVersion(db: sqlite3.Database, modelId: string): Promise<void> {
+  const version = await computeIndexVersion(db, modelId);
+  if (version !== await readIndexVersion(db)) {
+    await run(db, "INSERT OR REPLACE INTO index_meta (key, value) VALUES ('index_version', ?)", [version]);
+    await run(db, 'DELETE FROM answer_cache');
+  }
+}
+
+// Vectors of different models can't be compared, so an index built with another embedding model is an error
+export async function checkEmbeddingModel(db: sqlite3.Database, embeddings: EmbeddingsInterface): Promise<void> {
+  const modelId = embeddingModelId(embeddings);
+  const storedModel = await all(db, "SELECT value FROM index_meta WHERE key = 'embedding_model'");
+  if (storedModel.length && storedModel[0].value !== modelId && await countChunks(db) > 0) {
+    throw new Error(`The index was built with ${storedModel[0].value}, not ${modelId}. Use the index of that embedding model or delete this one.`);
+  }
+}
+
+export async function countChunks(db: sqlite3.Database): Promise<number> {
+  const rows = await all(db, 'SELECT COUNT(*) AS count FROM chunks');
+  return rows[0].count;
+}
+
+/*
+Bring the index in line with `chunks`: embed and insert new chunks, delete stale ones.
+If the stored vectors were created by a different embedding model, the index is rebuilt: every chunk is embedded
+again, and the old vectors are only deleted in the transaction that inserts the new ones, so a failed embedding call
+leaves the old index as it was.
+*/
+export async function syncVectorIndex(
+  db: sqlite3.Database,
+  chunks: Document[],
+  embeddings: EmbeddingsInterface
+): Promise<SyncResult> {
+  const modelId = embeddingModelId(embeddings);
+  const storedModel = await all(db, "SELECT value FROM index_meta WHERE key = 'embedding_model'");
+  const rebuild = storedModel.length > 0 && storedModel[0].value !== modelId;
+  if (rebuild) {
+    console.log(`Embedding model changed from ${storedModel[0].value} to ${modelId}, rebuilding index`);
+  }
+
+  // Deduplicate chunks that hash the same (ex. repeated navigation text on a page)
+  const incoming = new Map<string, Document>();
+  for (const chunk of chunks) {
+    incoming.set(hashChunk(chunk), chunk);
+  }
+
+  // When rebuilding, no stored vector can be kept
+  const existingRows = rebuild ? [] : await all(db, 'SELECT hash, metadata FROM chunks');
+  const existing = new Map<string, string>(existingRows.map(row => [row.hash, row.metadata]));
+
+  const toAdd = [...incoming.entries()].filter(([hash]) => !existing.has(hash));
+  const toRemove = [...existing.keys()].filter(hash => !incoming.has(hash));
+  const toUpdate = staleMetadata(incoming, existing);
+
+  console.log(`Embedding ${toAdd.length} new chunks (${incoming.size - toAdd.length} unchanged)`);
+  const vectors = toAdd.length
+    ? await embeddings.embedDocuments(toAdd.map(([, doc]) => doc.pageContent))
+    : [];
+
+  await run(db, 'BEGIN TRANSACTION');
+  try {
+    if (rebuild) {
+      await run(db, 'DELETE FROM chunks');
+    }
+    for (const hash of toRemove) {
+      await run(db, 'DELETE FROM chunks WHERE hash = ?', [hash]);
+    }
+    for (const [hash, doc] of toUpdate) {
+      await run(db, 'UPDATE chunks SET metadata = ? WHERE hash = ?', [JSON.stringify(doc.metadata), hash]);
+    }
+    for (let i = 0; i < toAdd.length; i++) {
+      const [hash, doc] = toAdd[i];
+      await run(
+        db,
+        'INSERT INTO chunks (hash, source, content, metadata, embedding) VALUES (?, ?, ?, ?, ?)',
+        [hash, String(doc.metadata.source ?? ''), doc.pageContent, JSON.stringify(doc.metadata), JSON.stringify(vectors[i])]
+      );
+    }
+    await run(db, "INSERT OR REPLACE INTO index_meta (key, value) VALUES ('embedding_model', ?)", [modelId]);
+    await updateIndexVersion(db, modelId);
+    await run(db, 'COMMIT');
+  } catch (error) {
+    await run(db, 'ROLLBACK');
+    throw error;
+  }
+
+  return { added: toAdd.length, removed: toRemove.length, unchanged: incoming.size - toAdd.length, updated: toUpdate.length };
+}
+
+/*
+Replace the chunks of a single source, leaving every other source untouched. This is how the ingestion CLI
+updates the index one page at a time; `syncVectorIndex` would delete the chunks of every page not re-fetched.
+Unlike `syncVectorIndex`, this never rebuilds the index: vectors of different models can't be mixed,
+so an index built with another embedding model is an error.
+*/
+export async function replaceSourceChunks(
+  db: sqlite3.Database,
+  source: string,
+  chunks: Document[],
+  embeddings: EmbeddingsInterface
+): Promise<SyncResult> {
+  const modelId = embeddingModelId(embeddings);
+  await checkEmbeddingModel(db, embeddings);
+
+  const incoming = new Map<string, Document>();
+  for (const chunk of chunks) {
+    const doc = new Document({ pageContent: chunk.pageContent, metadata: { ...chunk.metadata, source } });
+    incoming.set(hashChunk(doc), doc);
+  }
+
+  const existingRows = await all(db, 'SELECT hash, metadata FROM chunks WHERE source = ?', [source]);
+  const existing = new Map<string, string>(existingRows.map(row => [row.hash, row.metadata]));
+
+  const toAdd = [...incoming.entries()].filter(([hash]) => !existing.has(hash));
+  const toRemove = [...existing.keys()].filter(hash => !incoming.has(hash));
+  const toUpdate = staleMetadata(incoming, existing);
+  const vectors = toAdd.length
+    ? await embeddings.embedDocuments(toAdd.map(([, doc]) => doc.pageContent))
+    : [];
+
+  await run(db, 'BEGIN TRANSACTION');
+  try {
+    for (const hash of toRemove) {
+      await run(db, 'DELETE FROM chunks WHERE hash = ?', [hash]);
+    }
+    for (const [hash, doc] of toUpdate) {
+      await run(db, 'UPDATE chunks SET metadata = ? WHERE hash = ?', [JSON.stringify(doc.metadata), hash]);
+    }
+    for (let i = 0; i < toAdd.length; i++) {
+      const [hash, doc] = toAdd[i];
+      await run(
+        db,
+        'INSERT OR REPLACE INTO chunks (hash, source, content, metadata, embedding) VALUES (?, ?, ?, ?, ?)',
+        [hash, source, doc.pageContent, JSON.stringify(doc.metadata), JSON.stringify(vectors[i])]
+      );
+    }
+    await run(db, "INSERT OR REPLACE INTO index_meta (key, value) VALUES ('embedding_model', ?)", [modelId]);
+    await updateIndexVersion(db, modelId);
+    await run(db, 'COMMIT');
+  } catch (error) {
+    await run(db, 'ROLLBACK');
+    throw error;
+  }
+
+  return { added: toAdd.length, removed: toRemove.length, unchanged: incoming.size - toAdd.length, updated: toUpdate.length };
+}
+
+// Delete every chunk of a source, returns how many were deleted
+export async function deleteSourceChunks(db: sqlite3.Database, source: string): Promise<number> {
+  const rows = await all(db, 'SELECT COUNT(*) AS count FROM chunks WHERE source = ?', [source]);
+  await run(db, 'BEGIN TRANSACTION');
+  try {
+    await run(db, 'DELETE FROM chunks WHERE source = ?', [source]);
+    const storedModel = await all(db, "SELECT value FROM index_meta WHERE key = 'embedding_model'");
+    await updateIndexVersion(db, storedModel.length ? storedModel[0].value : '');
+    await run(db, 'COMMIT');
+  } catch (error) {
+    await run(db, 'ROLLBACK');
+    throw error;
+  }
+  return rows[0].count;
+}
+
+// Load every stored chunk and its vector into an in-memory vectorstore
+export async function loadVectorStore(
+  db: sqlite3.Database,
+  embeddings: EmbeddingsInterface
+): Promise<MemoryVectorStore> {
+  const rows = await all(db, 'SELECT hash, content, metadata, embedding FROM chunks ORDER BY rowid');
+  const vectorstore = new MemoryVectorStore(embeddings);
+  await vectorstore.addVectors(
+    rows.map(row => JSON.parse(row.embedding)),
+    rows.map(row => new Document({
+      pageContent: row.content,
+      metadata: { ...JSON.parse(row.metadata), chunk_hash: row.hash },
+    }))
+  );
+  return vectorstore;
+}
+
+// The answer cache of the current index version, see ```rag-agents/answer-cache.ts```
+export interface CachedAnswerRow {
+  question: string;
+  embedding: number[];
+  answer: string;
+}
+
+export async function loadCachedAnswers(db: sqlite3.Database): Promise<CachedAnswerRow[]> {
+  const version = await readIndexVersion(db);
+  const rows = await all(db, 'SELECT question, embedding, answer FROM answer_cache WHERE index_version = ? ORDER BY id', [version]);
+  return rows.map(row => ({ question: row.question, embedding: JSON.parse(row.embedding), answer: row.answer }));
+}
+
+export async function insertCachedAnswer(db: sqlite3.Database, row: CachedAnswerRow): Promise<void> {
+  const version = await readIndexVersion(db);
+  await run(
+    db,
+    'INSERT INTO answer_cache (question, embedding, answer, index_version) VALUES (?, ?, ?, ?)',
+    [row.question, JSON.stringify(row.embedding), row.answer, version]
+  );
+}
+
+// A web page registered with the ingestion CLI, see ```rag-agents/ingest.ts```
+export interface SourceRecord {
+  url: string;
+  // ISO timestamps
+  added_at: string;
+  fetched_at: string | null;
+  // Validators from the last successful fetch, sent back to only download the page if it changed
+  etag: string | null;
+  last_modified: string | null;
+  // 'pending' until first fetched, then 'fetched', 'not_modified' or 'error: <message>'
+  status: string;
+}
+
+export interface SourceSummary extends SourceRecord {
+  chunks: number;
+}
+
+export async function listSources(db: sqlite3.Database): Promise<SourceSummary[]> {
+  return all(db, `SELECT sources.*, (SELECT COUNT(*) FROM chunks WHERE chunks.source = sources.url) AS chunks
+    FROM sources ORDER BY url`);
+}
+
+export async function upsertSource(db: sqlite3.Database, record: SourceRecord): Promise<void> {
+  await run(
+    db,
+    'INSERT OR REPLACE INTO sources (url, added_at, fetched_at, etag, last_modified, status) VALUES (?, ?, ?, ?, ?, ?)',
+    [record.url, record.added_at, record.fetched_at, record.etag, record.last_modified, record.status]
+  );
+}
+
+export async function deleteSource(db: sqlite3.Database, url: string): Promise<void> {
+  await run(db, 'DELETE FROM sources WHERE url = ?', [url]);
+}
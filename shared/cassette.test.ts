@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AIMessageChunk } from '@langchain/core/messages';
+import { Cassette } from './cassette';
+
+function cassettePath(t: { after: (fn: () => void) => void }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, 'cassette.json');
+}
+
+test('a failed call is recorded and its error thrown again on replay', async t => {
+  const file = cassettePath(t);
+  const failing = async (): Promise<never> => {
+    throw Object.assign(new Error('SQLITE_ERROR: no such table: Album'), { name: 'SqliteError' });
+  };
+  await assert.rejects(new Cassette(file, 'record').call('sql', { query: 'SELECT * FROM Album' }, failing), /no such table/);
+
+  const replay = new Cassette(file, 'replay');
+  await assert.rejects(
+    replay.call('sql', { query: 'SELECT * FROM Album' }, () => assert.fail('replay must not run the call')),
+    { name: 'SqliteError', message: 'SQLITE_ERROR: no such table: Album' },
+  );
+});
+
+test('a streamed message chunk is replayed as a chunk', async t => {
+  const file = cassettePath(t);
+  const chunk = new AIMessageChunk({ content: 'Hello', id: 'run-1' });
+  await new Cassette(file, 'record').call('chat', { prompt: 'Hi' }, async () => chunk);
+
+  const replayed = await new Cassette(file, 'replay').call('chat', { prompt: 'Hi' }, async () => chunk);
+  assert.ok(replayed instanceof AIMessageChunk);
+  assert.equal(replayed.content, 'Hello');
+});
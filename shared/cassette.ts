@@ -0,0 +1,268 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BaseMessage,
+  StoredMessage,
+  convertToChunk,
+  isBaseMessage,
+  isBaseMessageChunk,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+} from '@langchain/core/messages';
+
+/* READ
+Every run of a graph calls the LLM, so runs (and the evals in ```evals/```) cost tokens and can give
+different answers each time. A cassette makes a run reproducible:
+
+- In record mode, every LLM call, embedding call, Chinook SQL query and answer cache lookup of the run
+  is executed as usual, and its request and response are written to the cassette file.
+- In replay mode, none of them is executed: every call is answered from the cassette, so the same
+  `graph.invoke` returns exactly the recorded result, offline. The Chinook database isn't even downloaded.
+
+The RAG graphs also read their vector index from disk, which isn't recorded: record and replay them with the same
+pre-built index (see ```rag-agents/ingest.ts```). Replaying without an index fails, instead of crawling the docs.
+
+Turn a cassette on for a whole process with environment variables:
+
+CASSETTE_MODE=record CASSETTE_PATH=cassettes/final-answer.json npx ts-node evals/final-answer.ts
+CASSETTE_MODE=replay CASSETTE_PATH=cassettes/final-answer.json npx ts-node evals/final-answer.ts
+
+or from code, ex. in a test, with `useCassette('cassettes/supervisor.json', 'replay')`.
+
+A call that fails is recorded too, with the name and message of its error, and replaying it throws that error again,
+so the error paths of a run (ex. a failing SQL query the agent recovers from) replay like the rest.
+
+Calls are matched by their request, not by their order, because some nodes call the LLM concurrently
+(ex. document grading). If the graph sends a request that isn't in the cassette (ex. because a prompt
+changed), replay fails with a diff between the request and the closest recorded one.
+Re-record the cassette after intended changes.
+
+The LLM calls are recorded by the configurable model of ```shared/models.ts```, so models passed in
+directly (like a `ScriptedChatModel`) aren't recorded; they are deterministic already.
+*/
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteEntry {
+  // What was called, ex. 'chat', 'structured_output', 'embed_query' or 'sql'
+  kind: string;
+  request: Record<string, any>;
+  // What the call returned, or the error it threw
+  response?: any;
+  error?: RecordedError;
+}
+
+export interface RecordedError {
+  name: string;
+  message: string;
+}
+
+export const DEFAULT_CASSETTE_PATH = path.join('cassettes', 'cassette.json');
+
+// Unchanged lines kept around each change of a mismatch diff
+const DIFF_CONTEXT_LINES = 3;
+
+// Messages are stored in LangChain's serialized format, so replayed messages keep their tool calls, ids and metadata.
+// The format doesn't tell chunks (ex. a streamed `AIMessageChunk`) from messages, so we mark them
+function toJSONValue(value: any): any {
+  if (isBaseMessage(value)) {
+    const lcMessage = mapChatMessagesToStoredMessages([value])[0];
+    return isBaseMessageChunk(value) ? { lc_message: lcMessage, lc_chunk: true } : { lc_message: lcMessage };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJSONValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJSONValue(item)]));
+  }
+  return value;
+}
+
+function fromJSONValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(fromJSONValue);
+  }
+  if (value && typeof value === 'object') {
+    if (value.lc_message) {
+      const message = mapStoredMessagesToChatMessages([value.lc_message as StoredMessage])[0];
+      return value.lc_chunk ? convertToChunk(message) : message;
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fromJSONValue(item)]));
+  }
+  return value;
+}
+
+// Render the prompt of an LLM call as text, one line per message line, so that mismatches can be diffed
+export function renderMessages(messages: BaseMessage[]): string {
+  return messages.map(message => {
+    const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+    const toolCalls = (message as any).tool_calls ?? [];
+    const calls = toolCalls.map((toolCall: any) => `\n[tool call] ${toolCall.name} ${JSON.stringify(toolCall.args)}`);
+    return `[${message.getType()}] ${content}${calls.join('')}`;
+  }).join('\n');
+}
+
+function requestLines(request: Record<string, any>): string[] {
+  return Object.entries(request).flatMap(([key, value]) =>
+    typeof value === 'string' && value.includes('\n')
+      ? [`${key}:`, ...value.split('\n')]
+      : [`${key}: ${JSON.stringify(value)}`]
+  );
+}
+
+// Line diff of two requests, from their longest common subsequence
+function diffLines(recorded: string[], actual: string[]): { common: number; lines: string[] } {
+  const lengths = Array.from({ length: recorded.length + 1 }, () => new Array<number>(actual.length + 1).fill(0));
+  for (let i = recorded.length - 1; i >= 0; i--) {
+    for (let j = actual.length - 1; j >= 0; j--) {
+      lengths[i][j] = recorded[i] === actual[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < recorded.length || j < actual.length) {
+    if (i < recorded.length && j < actual.length && recorded[i] === actual[j]) {
+      lines.push(`  ${recorded[i]}`);
+      i++;
+      j++;
+    } else if (i < recorded.length && (j === actual.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push(`- ${recorded[i]}`);
+      i++;
+    } else {
+      lines.push(`+ ${actual[j]}`);
+      j++;
+    }
+  }
+  return { common: lengths[0][0], lines };
+}
+
+// Keep only the changed lines and a few lines around them
+function collapseUnchanged(lines: string[]): string[] {
+  const changed = lines.map(line => !line.startsWith('  '));
+  const keep = lines.map((_, index) =>
+    changed.slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1).some(Boolean)
+  );
+  const collapsed: string[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      collapsed.push(line);
+    } else if (keep[index - 1] || index === 0) {
+      collapsed.push('  ...');
+    }
+  });
+  return collapsed;
+}
+
+export class Cassette {
+  readonly path: string;
+  readonly mode: CassetteMode;
+  private entries: CassetteEntry[];
+  // Entries already replayed, so that identical requests get their responses in the recorded order
+  private replayed = new Set<number>();
+
+  constructor(filePath: string, mode: CassetteMode) {
+    this.path = filePath;
+    this.mode = mode;
+    if (mode === 'replay') {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`Cassette ${filePath} doesn't exist, record it first with CASSETTE_MODE=record`);
+      }
+      this.entries = JSON.parse(fs.readFileSync(filePath, 'utf-8')).entries;
+    } else {
+      // Recording always starts a fresh cassette
+      this.entries = [];
+      this.save();
+    }
+  }
+
+  /*
+  Run a call through the cassette. In record mode, `run` is executed and its response recorded.
+  In replay mode, the response recorded for an identical request is returned (or its error thrown) instead.
+  */
+  async call<T>(kind: string, request: Record<string, any>, run: () => Promise<T>): Promise<T> {
+    if (this.mode === 'replay') {
+      const key = JSON.stringify(request);
+      const index = this.entries.findIndex((entry, entryIndex) =>
+        !this.replayed.has(entryIndex) && entry.kind === kind && JSON.stringify(entry.request) === key
+      );
+      if (index === -1) {
+        throw new Error(this.describeMismatch(kind, request));
+      }
+      this.replayed.add(index);
+      const { response, error } = this.entries[index];
+      if (error) {
+        throw Object.assign(new Error(error.message), { name: error.name });
+      }
+      return fromJSONValue(response);
+    }
+
+    let response: T;
+    try {
+      response = await run();
+    } catch (error: any) {
+      this.entries.push({ kind, request, error: { name: error?.name ?? 'Error', message: error?.message ?? String(error) } });
+      this.save();
+      throw error;
+    }
+    this.entries.push({ kind, request, response: toJSONValue(response) });
+    this.save();
+    return response;
+  }
+
+  private save() {
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    fs.writeFileSync(this.path, JSON.stringify({ entries: this.entries }, null, 2));
+  }
+
+  private describeMismatch(kind: string, request: Record<string, any>): string {
+    const actual = requestLines(request);
+    const candidates = this.entries
+      .filter((entry, index) => !this.replayed.has(index) && entry.kind === kind)
+      .map(entry => diffLines(requestLines(entry.request), actual));
+
+    const header = `No recorded ${kind} call in cassette ${this.path} matches this request.`;
+    if (!candidates.length) {
+      const recorded = this.entries.filter(entry => entry.kind === kind).length;
+      return `${header}\nAll ${recorded} recorded ${kind} calls were already replayed. The request was:\n${actual.join('\n')}`;
+    }
+    const closest = candidates.reduce((best, candidate) => candidate.common > best.common ? candidate : best);
+    return `${header}\nDiff against the closest recorded request (- recorded, + actual):\n${collapseUnchanged(closest.lines).join('\n')}`;
+  }
+}
+
+// The cassette of this process: undefined until read from the environment, null when there is none
+let activeCassette: Cassette | null | undefined;
+
+export function useCassette(filePath: string, mode: CassetteMode): Cassette {
+  activeCassette = new Cassette(filePath, mode);
+  return activeCassette;
+}
+
+export function ejectCassette() {
+  activeCassette = null;
+}
+
+export function getActiveCassette(): Cassette | null {
+  if (activeCassette === undefined) {
+    const mode = process.env.CASSETTE_MODE;
+    if (mode && mode !== 'record' && mode !== 'replay') {
+      throw new Error(`Unknown CASSETTE_MODE "${mode}", use record or replay`);
+    }
+    activeCassette = mode ? new Cassette(process.env.CASSETTE_PATH || DEFAULT_CASSETTE_PATH, mode as CassetteMode) : null;
+  }
+  return activeCassette;
+}
+
+export function isReplaying(): boolean {
+  return getActiveCassette()?.mode === 'replay';
+}
+
+// Run a call through the active cassette, or just run it when there is none
+export function recordCall<T>(kind: string, request: Record<string, any>, run: () => Promise<T>): Promise<T> {
+  const cassette = getActiveCassette();
+  return cassette ? cassette.call(kind, request, run) : run();
+}
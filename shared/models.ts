@@ -0,0 +1,405 @@
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
+import { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { BaseChatModel, BaseChatModelCallOptions, BindToolsInput } from '@langchain/core/language_models/chat_models';
+import { BaseLanguageModelInput, StructuredOutputMethodOptions } from '@langchain/core/language_models/base';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { ChatResult } from '@langchain/core/outputs';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { Runnable, RunnableBinding, RunnableConfig, RunnableLambda, ensureConfig } from '@langchain/core/runnables';
+import { z } from 'zod';
+import { HashEmbeddings } from './testing';
+import { recordCall, renderMessages } from './cassette';
+
+/* READ
+Rather than hard-wiring `new ChatOpenAI({ modelName: 'gpt-4o' })`, our agents use a chat model that picks
+its provider, model and temperature every time it is called, from the run's `config.configurable`:
+
+`graph.invoke(inputs, { configurable: { model_provider: 'anthropic', model: 'claude-3-5-sonnet-20240620' } })`
+
+Anything not set on the run falls back to environment variables (see .env.example),
+and then to OpenAI's gpt-4o at temperature 0. So the same compiled graph can run against
+OpenAI, Anthropic, Vertex AI or a local OpenAI-compatible server (ex. Ollama, vLLM) per run.
+
+| configurable     | environment variable | |
+| ---------------- | -------------------- |-|
+| `model_provider` | `MODEL_PROVIDER`     | openai, anthropic, google-vertexai or openai-compatible |
+| `model`          | `MODEL_NAME`         | ex. gpt-4o, or "provider:model" like "anthropic:claude-3-5-sonnet-20240620" |
+| `temperature`    | `MODEL_TEMPERATURE`  | |
+| `base_url`       | `MODEL_BASE_URL`     | the server of an openai-compatible provider |
+
+The 'fake' provider runs offline: `model` names a chat model registered with `registerFakeChatModel`,
+usually a `ScriptedChatModel` from ```shared/testing.ts```.
+
+Models created with a `configPrefix` (ex. our graders) read prefixed settings first, ex. `grader_model`
+or `GRADER_MODEL_NAME`, so they can be configured independently of the main model.
+The Anthropic and Vertex AI integrations are only loaded when used: install `@langchain/anthropic`
+or `@langchain/google-vertexai` to use them.
+
+Calls through `invoke`, `bindTools` and `withStructuredOutput` (and embedding calls) go through the active
+cassette, if any, so that runs can be recorded and replayed offline. See ```shared/cassette.ts```.
+*/
+
+export type ModelProvider = 'openai' | 'anthropic' | 'google-vertexai' | 'openai-compatible' | 'fake';
+
+export interface ChatModelSettings {
+  provider: ModelProvider;
+  model: string;
+  temperature: number;
+  baseUrl?: string;
+}
+
+export interface ChatModelOptions {
+  // Read `<configPrefix>_model`, `<CONFIGPREFIX>_MODEL_NAME`, ... before the unprefixed settings
+  configPrefix?: string;
+  // Prefixes to try after `configPrefix`, ex. a shared 'grader' prefix for every grader
+  fallbackPrefixes?: string[];
+}
+
+const PROVIDERS: ModelProvider[] = ['openai', 'anthropic', 'google-vertexai', 'openai-compatible', 'fake'];
+
+const DEFAULT_MODELS: Record<ModelProvider, string> = {
+  'openai': 'gpt-4o',
+  'anthropic': 'claude-3-5-sonnet-20240620',
+  'google-vertexai': 'gemini-1.5-flash-002',
+  'openai-compatible': 'llama3.1',
+  'fake': 'default',
+};
+
+// Ollama's OpenAI-compatible endpoint, the most common local server
+const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+type SettingField = 'provider' | 'model' | 'temperature' | 'base_url';
+
+const CONFIGURABLE_KEYS: Record<SettingField, string> = {
+  provider: 'model_provider',
+  model: 'model',
+  temperature: 'temperature',
+  base_url: 'base_url',
+};
+
+const ENV_KEYS: Record<SettingField, string> = {
+  provider: 'MODEL_PROVIDER',
+  model: 'MODEL_NAME',
+  temperature: 'MODEL_TEMPERATURE',
+  base_url: 'MODEL_BASE_URL',
+};
+
+function parseProvider(value: unknown): ModelProvider | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (!PROVIDERS.includes(value as ModelProvider)) {
+    throw new Error(`Unsupported model provider "${value}", expected one of: ${PROVIDERS.join(', ')}`);
+  }
+  return value as ModelProvider;
+}
+
+function inferProvider(model: string): ModelProvider {
+  if (model.startsWith('claude')) return 'anthropic';
+  if (model.startsWith('gemini')) return 'google-vertexai';
+  return 'openai';
+}
+
+/*
+Resolve the settings of a chat model. Each prefix is a level, from the most specific to the
+unprefixed settings. The first level that names a provider or a model wins, looking at the run's
+config before the environment, so that a provider and a model from different levels are never mixed.
+The temperature is provider-agnostic, so it is resolved on its own.
+*/
+export function resolveChatModelSettings(
+  configurable: Record<string, any> = {},
+  prefixes: string[] = []
+): ChatModelSettings {
+  const levels = [...new Set([...prefixes.filter(Boolean), ''])];
+  const readers = [
+    (prefix: string, field: SettingField) =>
+      configurable[prefix ? `${prefix}_${CONFIGURABLE_KEYS[field]}` : CONFIGURABLE_KEYS[field]],
+    (prefix: string, field: SettingField) =>
+      process.env[prefix ? `${prefix.toUpperCase()}_${ENV_KEYS[field]}` : ENV_KEYS[field]],
+  ];
+
+  let provider: ModelProvider | undefined;
+  let model: string | undefined;
+  let baseUrl: string | undefined;
+  search: for (const read of readers) {
+    for (const prefix of levels) {
+      if (read(prefix, 'provider') || read(prefix, 'model')) {
+        provider = parseProvider(read(prefix, 'provider'));
+        model = read(prefix, 'model') || undefined;
+        baseUrl = read(prefix, 'base_url') || undefined;
+        break search;
+      }
+    }
+  }
+
+  // Accept "provider:model", ex. "anthropic:claude-3-5-sonnet-20240620"
+  const [maybeProvider, ...rest] = (model ?? '').split(':');
+  if (rest.length && PROVIDERS.includes(maybeProvider as ModelProvider)) {
+    provider = provider ?? (maybeProvider as ModelProvider);
+    model = rest.join(':');
+  }
+  provider = provider ?? (model ? inferProvider(model) : 'openai');
+
+  let temperature = 0;
+  temperature: for (const read of readers) {
+    for (const prefix of levels) {
+      const value = read(prefix, 'temperature');
+      if (value !== undefined && value !== '') {
+        temperature = Number(value);
+        break temperature;
+      }
+    }
+  }
+
+  return { provider, model: model ?? DEFAULT_MODELS[provider], temperature, baseUrl };
+}
+
+// Load an optional integration package, with a helpful error if it isn't installed
+async function importIntegration(packageName: string): Promise<any> {
+  try {
+    return await import(packageName);
+  } catch (error) {
+    throw new Error(`This model provider needs the "${packageName}" package, install it with \`npm install ${packageName}\``);
+  }
+}
+
+async function createChatModelFromSettings(settings: ChatModelSettings): Promise<BaseChatModel> {
+  const { provider, model, temperature, baseUrl } = settings;
+  switch (provider) {
+    case 'openai':
+      return new ChatOpenAI({ model, temperature });
+    case 'openai-compatible':
+      return new ChatOpenAI({
+        model,
+        temperature,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+        configuration: { baseURL: baseUrl ?? DEFAULT_OPENAI_COMPATIBLE_BASE_URL },
+      });
+    case 'anthropic': {
+      const { ChatAnthropic } = await importIntegration('@langchain/anthropic');
+      return new ChatAnthropic({ model, temperature });
+    }
+    case 'google-vertexai': {
+      const { ChatVertexAI } = await importIntegration('@langchain/google-vertexai');
+      return new ChatVertexAI({ model, temperature });
+    }
+    case 'fake':
+      return getFakeChatModel(model);
+  }
+}
+
+// Chat models served by the 'fake' provider, by name
+const fakeChatModels = new Map<string, BaseChatModel>();
+
+export function registerFakeChatModel(name: string, model: BaseChatModel) {
+  fakeChatModels.set(name, model);
+}
+
+function getFakeChatModel(name: string): BaseChatModel {
+  const model = fakeChatModels.get(name);
+  if (!model) {
+    throw new Error(`No fake chat model is registered as "${name}", register one with registerFakeChatModel('${name}', model)`);
+  }
+  return model;
+}
+
+// Models are cheap to create but hold HTTP clients, so reuse one per distinct set of settings
+const chatModels = new Map<string, Promise<BaseChatModel>>();
+
+function getChatModelForSettings(settings: ChatModelSettings): Promise<BaseChatModel> {
+  // Fake models can be re-registered between runs, so they are never cached
+  if (settings.provider === 'fake') {
+    return createChatModelFromSettings(settings);
+  }
+  const key = JSON.stringify(settings);
+  if (!chatModels.has(key)) {
+    chatModels.set(key, createChatModelFromSettings(settings).catch(error => {
+      chatModels.delete(key);
+      throw error;
+    }));
+  }
+  return chatModels.get(key)!;
+}
+
+/*
+A chat model that delegates every call to the model selected by the run's config.
+`bindTools` and `withStructuredOutput` are deferred the same way, so they use the selected
+provider's own implementation (ex. OpenAI's JSON schema mode, Anthropic's tool use).
+*/
+export class ConfigurableChatModel extends BaseChatModel {
+  lc_namespace = ['langgraph-101', 'chat_models', 'configurable'];
+
+  configPrefix: string;
+  fallbackPrefixes: string[];
+
+  constructor(options: ChatModelOptions = {}) {
+    super({});
+    this.configPrefix = options.configPrefix ?? '';
+    this.fallbackPrefixes = options.fallbackPrefixes ?? [];
+  }
+
+  _llmType(): string {
+    return 'configurable';
+  }
+
+  // Nodes often call `llm.invoke(messages)` without a config, so fall back to the config of the running graph
+  resolveSettings(config?: RunnableConfig): ChatModelSettings {
+    return resolveChatModelSettings(ensureConfig(config).configurable, [this.configPrefix, ...this.fallbackPrefixes]);
+  }
+
+  resolveModel(config?: RunnableConfig): Promise<BaseChatModel> {
+    return getChatModelForSettings(this.resolveSettings(config));
+  }
+
+  // What a cassette matches a call on: the model settings, any extra details, and the prompt
+  private cassetteRequest(settings: ChatModelSettings, input: BaseLanguageModelInput, details: Record<string, any> = {}) {
+    const messages = ConfigurableChatModel._convertInputToPromptValue(input).toChatMessages();
+    return { model: settings, ...details, prompt: renderMessages(messages) };
+  }
+
+  async invoke(input: BaseLanguageModelInput, options?: BaseChatModelCallOptions): Promise<AIMessageChunk> {
+    const settings = this.resolveSettings(options);
+    // When replaying, the model is never created, so no API key is needed
+    return recordCall('chat', this.cassetteRequest(settings, input), async () => {
+      const model = await getChatModelForSettings(settings);
+      return model.invoke(input, options) as Promise<AIMessageChunk>;
+    });
+  }
+
+  // Count tokens with the tokenizer of the model selected for this run (recorded too, tokenizers can download encodings)
+  async getNumTokens(content: BaseMessage['content']): Promise<number> {
+    const settings = this.resolveSettings();
+    return recordCall('count_tokens', { model: settings, content }, async () => {
+      const model = await getChatModelForSettings(settings);
+      return model.getNumTokens(content);
+    });
+  }
+
+  // Streamed calls aren't recorded by cassettes, our graphs call `invoke`
+  async *_streamIterator(input: BaseLanguageModelInput, options?: BaseChatModelCallOptions): AsyncGenerator<AIMessageChunk> {
+    const model = await this.resolveModel(options);
+    for await (const chunk of await model.stream(input, options)) {
+      yield chunk as AIMessageChunk;
+    }
+  }
+
+  // Only reached through the low-level `generate` API, which doesn't carry the run's config
+  async _generate(messages: BaseMessage[], options: this['ParsedCallOptions'], runManager?: CallbackManagerForLLMRun): Promise<ChatResult> {
+    const model = await this.resolveModel();
+    return model._generate(messages, options, runManager);
+  }
+
+  bindTools(tools: BindToolsInput[], kwargs?: Partial<BaseChatModelCallOptions>): Runnable<BaseLanguageModelInput, AIMessageChunk> {
+    const toolNames = tools.map(tool => (tool as any).name ?? (tool as any).function?.name);
+    const boundModel = RunnableLambda.from(async (input: BaseLanguageModelInput, runConfig?: RunnableConfig & { tools?: unknown }) => {
+      // The selected model binds the tools itself, the `tools` bound below only describe them
+      const { tools: _boundTools, ...config } = runConfig ?? {};
+      const settings = this.resolveSettings(config);
+      return recordCall('chat', this.cassetteRequest(settings, input, { tools: toolNames }), async () => {
+        const model = await getChatModelForSettings(settings);
+        if (!model.bindTools) {
+          throw new Error(`${model.getName()} doesn't support tool calling`);
+        }
+        // `parallel_tool_calls` is an OpenAI-only option (the supervisor sets it)
+        const { parallel_tool_calls, ...otherKwargs } = (kwargs ?? {}) as Record<string, any>;
+        const modelKwargs = model instanceof ChatOpenAI ? kwargs : otherKwargs;
+        return model.bindTools(tools, modelKwargs).invoke(input, config) as Promise<AIMessageChunk>;
+      });
+    }).withConfig({ runName: 'ConfigurableChatModel' });
+
+    // createReactAgent (used by the supervisor) only accepts a model with tools already bound if it is
+    // a RunnableBinding listing them, otherwise it tries to bind them again on the result of `bindTools`
+    return new RunnableBinding<BaseLanguageModelInput, AIMessageChunk, RunnableConfig & { tools?: unknown }>({
+      bound: boundModel,
+      kwargs: { tools: toolNames.map(name => ({ name })) },
+      config: {},
+    });
+  }
+
+  withStructuredOutput<RunOutput extends Record<string, any> = Record<string, any>>(
+    outputSchema: z.ZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<false>
+  ): Runnable<BaseLanguageModelInput, RunOutput>;
+  withStructuredOutput<RunOutput extends Record<string, any> = Record<string, any>>(
+    outputSchema: z.ZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<true>
+  ): Runnable<BaseLanguageModelInput, { raw: BaseMessage; parsed: RunOutput }>;
+  withStructuredOutput(outputSchema: any, structuredOutputConfig?: any): Runnable<BaseLanguageModelInput, any> {
+    return RunnableLambda.from(async (input: BaseLanguageModelInput, config?: RunnableConfig) => {
+      const settings = this.resolveSettings(config);
+      return recordCall('structured_output', this.cassetteRequest(settings, input), async () => {
+        const model = await getChatModelForSettings(settings);
+        return model.withStructuredOutput(outputSchema, structuredOutputConfig).invoke(input, config);
+      });
+    }).withConfig({ runName: 'StructuredOutput' });
+  }
+}
+
+export function createChatModel(options: ChatModelOptions = {}): ConfigurableChatModel {
+  return new ConfigurableChatModel(options);
+}
+
+// -----------------------------------------------------------------------------------
+// Embedding Models -----------------------------------------------------------------
+// -----------------------------------------------------------------------------------
+
+/*
+Embedding models are selected the same way, through `embedding_provider`, `embedding_model` and
+`embedding_base_url` (or `EMBEDDING_PROVIDER`, `EMBEDDING_MODEL` and `EMBEDDING_BASE_URL`).
+Anthropic doesn't offer embeddings, so the providers are openai, google-vertexai, openai-compatible,
+and fake, which uses the offline `HashEmbeddings` from ```shared/testing.ts```.
+*/
+export interface EmbeddingModelSettings {
+  provider: Exclude<ModelProvider, 'anthropic'>;
+  model?: string;
+  baseUrl?: string;
+}
+
+export function resolveEmbeddingSettings(configurable: Record<string, any> = {}): EmbeddingModelSettings {
+  const provider = parseProvider(configurable.embedding_provider || process.env.EMBEDDING_PROVIDER) ?? 'openai';
+  if (provider === 'anthropic') {
+    throw new Error('Anthropic does not provide embedding models, pick another embedding_provider');
+  }
+  return {
+    provider,
+    model: configurable.embedding_model || process.env.EMBEDDING_MODEL || undefined,
+    baseUrl: configurable.embedding_base_url || process.env.EMBEDDING_BASE_URL || undefined,
+  };
+}
+
+export async function createEmbeddingModel(settings: EmbeddingModelSettings = resolveEmbeddingSettings()): Promise<EmbeddingsInterface> {
+  return recordEmbeddingCalls(await createEmbeddingModelForProvider(settings), settings);
+}
+
+async function createEmbeddingModelForProvider({ provider, model, baseUrl }: EmbeddingModelSettings): Promise<EmbeddingsInterface> {
+  switch (provider) {
+    case 'openai':
+      return new OpenAIEmbeddings(model ? { model } : {});
+    case 'openai-compatible':
+      return new OpenAIEmbeddings({
+        model,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+        configuration: { baseURL: baseUrl ?? DEFAULT_OPENAI_COMPATIBLE_BASE_URL },
+      });
+    case 'google-vertexai': {
+      const { VertexAIEmbeddings } = await importIntegration('@langchain/google-vertexai');
+      return new VertexAIEmbeddings(model ? { model } : {});
+    }
+    case 'fake':
+      return new HashEmbeddings();
+  }
+}
+
+/*
+Route the embedding calls through the active cassette. The methods are replaced on the instance,
+rather than wrapping the model, because the persisted RAG index identifies vectors by the model's class.
+*/
+function recordEmbeddingCalls(embeddings: EmbeddingsInterface, settings: EmbeddingModelSettings): EmbeddingsInterface {
+  const embedQuery = embeddings.embedQuery.bind(embeddings);
+  const embedDocuments = embeddings.embedDocuments.bind(embeddings);
+  embeddings.embedQuery = (document) =>
+    recordCall('embed_query', { model: settings, document }, () => embedQuery(document));
+  embeddings.embedDocuments = (documents) =>
+    recordCall('embed_documents', { model: settings, documents }, () => embedDocuments(documents));
+  return embeddings;
+}
@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { before, after } from 'node:test';
+import sqlite3 from 'sqlite3';
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import { ToolCall } from '@langchain/core/messages/tool';
+import { BaseChatModel, BaseChatModelCallOptions, BindToolsInput } from '@langchain/core/language_models/chat_models';
+import { BaseLanguageModelInput, StructuredOutputMethodOptions } from '@langchain/core/language_models/base';
+import { ChatResult } from '@langchain/core/outputs';
+import { Embeddings } from '@langchain/core/embeddings';
+import { Runnable, RunnableLambda } from '@langchain/core/runnables';
+import { z } from 'zod';
+
+/* READ
+Every graph in this repo calls an LLM, so running one normally needs live API credentials.
+For offline runs and tests, this file provides two deterministic stand-ins:
+
+- `ScriptedChatModel`: answers from a script of canned responses, each keyed by a pattern that is
+  matched against the prompt. A response can be plain text, tool calls (ex. for the music and invoice
+  subagents), or the object returned by `withStructuredOutput` (ex. for the document grader).
+- `HashEmbeddings`: embeds text by hashing its words into a fixed-size vector, so texts that share
+  words are similar. No API calls, and the same text always gets the same vector.
+
+Tests of the multi-agent graphs also call `useChinookFixture()`, which builds a small Chinook database
+on disk (`CHINOOK_FIXTURE`) before the tests of the file run, and points `CHINOOK_DB_PATH` at it.
+
+Inject them wherever a model is passed in, ex. `buildRagGraph({ llm: scripted, ... })` or
+`getLanggraphDocsRetriever({ embeddings: new HashEmbeddings() })`. Modules that use the shared `llm`
+(like the multi-agent graphs) can be pointed at a scripted model with the 'fake' provider:
+
+registerFakeChatModel('music', scripted);
+graph.invoke(inputs, { configurable: { model_provider: 'fake', model: 'music' } });
+
+See ```rag-agents/rag-graph.test.ts``` and ```multi-agent/assistant-agent.test.ts``` for complete offline runs
+of the RAG graphs and the supervisor (`npm test`).
+*/
+
+export interface ScriptedResponse {
+  /*
+  Which calls this response answers. A string matches if the prompt contains it, a RegExp is tested
+  against the prompt, and a function receives the messages. The prompt is the text of every message,
+  one per line. Without `match`, the response answers any call.
+  Responses are tried in order and the first match answers, so list specific patterns first:
+  prompts often include the retrieved documents, which can match a pattern meant for another call.
+  */
+  match?: string | RegExp | ((messages: BaseMessage[]) => boolean);
+  // Text of the AI message
+  content?: string;
+  // Tool calls of the AI message, ids are generated if missing
+  toolCalls?: { name: string; args: Record<string, any>; id?: string }[];
+  // The object returned by `withStructuredOutput`, or a function building it from the messages
+  structured?: Record<string, any> | ((messages: BaseMessage[]) => Record<string, any>);
+  // Answer only the first matching call, ex. to script a tool call followed by a final answer
+  once?: boolean;
+}
+
+// A call the scripted model received, for inspecting what a graph sent to the LLM
+export interface ScriptedCall {
+  prompt: string;
+  messages: BaseMessage[];
+  structured: boolean;
+  tools: string[];
+}
+
+interface Script {
+  responses: ScriptedResponse[];
+  used: Set<ScriptedResponse>;
+  calls: ScriptedCall[];
+  toolCallCount: number;
+}
+
+export interface ScriptedChatModelInput {
+  responses: ScriptedResponse[];
+}
+
+function messageText(message: BaseMessage): string {
+  return typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+}
+
+function promptText(messages: BaseMessage[]): string {
+  return messages.map(messageText).join('\n');
+}
+
+function toolName(tool: BindToolsInput): string {
+  const anyTool = tool as any;
+  return anyTool.name ?? anyTool.function?.name ?? 'unknown';
+}
+
+export class ScriptedChatModel extends BaseChatModel {
+  lc_namespace = ['langgraph-101', 'chat_models', 'scripted'];
+
+  private script: Script;
+  private boundTools: string[];
+
+  constructor(fields: ScriptedChatModelInput, script?: Script, boundTools: string[] = []) {
+    super({});
+    // Copies made by `bindTools` share the script, so `once` responses and calls are tracked across them
+    this.script = script ?? { responses: fields.responses, used: new Set(), calls: [], toolCallCount: 0 };
+    this.boundTools = boundTools;
+  }
+
+  _llmType(): string {
+    return 'scripted';
+  }
+
+  // Every call received so far, in order
+  get calls(): ScriptedCall[] {
+    return this.script.calls;
+  }
+
+  private respond(messages: BaseMessage[], structured: boolean): ScriptedResponse {
+    const prompt = promptText(messages);
+    this.script.calls.push({ prompt, messages, structured, tools: this.boundTools });
+
+    const response = this.script.responses.find(candidate => {
+      if (candidate.once && this.script.used.has(candidate)) return false;
+      if (structured !== (candidate.structured !== undefined)) return false;
+      const { match } = candidate;
+      if (match === undefined) return true;
+      if (typeof match === 'string') return prompt.includes(match);
+      if (match instanceof RegExp) return match.test(prompt);
+      return match(messages);
+    });
+    if (!response) {
+      throw new Error(`No scripted ${structured ? 'structured ' : ''}response matches the prompt:\n${prompt}`);
+    }
+    this.script.used.add(response);
+    return response;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const response = this.respond(messages, false);
+    const toolCalls: ToolCall[] = (response.toolCalls ?? []).map(toolCall => {
+      if (!this.boundTools.includes(toolCall.name)) {
+        throw new Error(`Scripted tool call "${toolCall.name}" is not one of the bound tools: ${this.boundTools.join(', ') || 'none'}`);
+      }
+      return { ...toolCall, id: toolCall.id ?? `call_${++this.script.toolCallCount}`, type: 'tool_call' };
+    });
+    const message = new AIMessage({ content: response.content ?? '', tool_calls: toolCalls });
+    return { generations: [{ text: messageText(message), message }] };
+  }
+
+  bindTools(tools: BindToolsInput[], kwargs?: Partial<BaseChatModelCallOptions>): Runnable<BaseLanguageModelInput, any> {
+    return new ScriptedChatModel({ responses: [] }, this.script, tools.map(toolName));
+  }
+
+  withStructuredOutput<RunOutput extends Record<string, any> = Record<string, any>>(
+    outputSchema: z.ZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<false>
+  ): Runnable<BaseLanguageModelInput, RunOutput>;
+  withStructuredOutput<RunOutput extends Record<string, any> = Record<string, any>>(
+    outputSchema: z.ZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<true>
+  ): Runnable<BaseLanguageModelInput, { raw: BaseMessage; parsed: RunOutput }>;
+  withStructuredOutput(outputSchema: any): Runnable<BaseLanguageModelInput, any> {
+    return RunnableLambda.from((input: BaseLanguageModelInput) => {
+      const messages = ScriptedChatModel._convertInputToPromptValue(input).toChatMessages();
+      const { structured } = this.respond(messages, true);
+      const value = typeof structured === 'function' ? structured(messages) : structured!;
+
+      // Catch scripts that don't match the schema, like a real model's output parser would
+      if (outputSchema instanceof z.ZodType) {
+        return outputSchema.parse(value);
+      }
+      const missing = (outputSchema.required ?? []).filter((key: string) => !(key in value));
+      if (missing.length) {
+        throw new Error(`Scripted structured response is missing required fields: ${missing.join(', ')}`);
+      }
+      return value;
+    }).withConfig({ runName: 'StructuredOutput' });
+  }
+
+  // Counting tokens with tiktoken would download its encodings, so estimate instead
+  async getNumTokens(content: BaseMessage['content']): Promise<number> {
+    const text = typeof content === 'string' ? content : JSON.stringify(content);
+    return Math.ceil(text.length / 4);
+  }
+}
+
+export interface HashEmbeddingsInput {
+  // Length of every vector
+  size?: number;
+}
+
+// Deterministic bag-of-words embeddings: every word is hashed to a dimension and a sign
+export class HashEmbeddings extends Embeddings {
+  // Identifies the embedding model, so a persisted index is rebuilt when the size changes
+  model: string;
+  size: number;
+
+  constructor(fields: HashEmbeddingsInput = {}) {
+    super({});
+    this.size = fields.size ?? 256;
+    this.model = `hash-${this.size}`;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array(this.size).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9_]+/g) ?? []) {
+      const hash = createHash('sha256').update(word).digest();
+      const dimension = hash.readUInt32BE(0) % this.size;
+      vector[dimension] += hash[4] % 2 === 0 ? 1 : -1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map(value => value / norm) : vector;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map(document => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+}
+
+// Two customers and their invoices, with the columns the multi-agent tools and verification read
+export const CHINOOK_FIXTURE = `
+CREATE TABLE Customer (CustomerId INTEGER PRIMARY KEY, LastName TEXT, PostalCode TEXT, Email TEXT, Phone TEXT, SupportRepId INTEGER);
+CREATE TABLE Invoice (InvoiceId INTEGER PRIMARY KEY, CustomerId INTEGER, InvoiceDate TEXT, Total REAL);
+INSERT INTO Customer VALUES
+  (1, 'Gonçalves', '12227-000', 'luisg@embraer.com.br', '+55 (12) 3923-5555', 3),
+  (2, 'Köhler', '70174', 'leonekohler@surfeu.de', '+49 0711 2842222', 3);
+INSERT INTO Invoice VALUES (98, 1, '2025-03-11', 3.98), (121, 1, '2025-06-13', 3.96), (1, 2, '2025-01-01', 1.98);
+`;
+
+// Build `CHINOOK_FIXTURE` into a temporary file before the tests of the calling file, and delete it after them
+export function useChinookFixture() {
+  let fixtureDir: string;
+
+  before(async () => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chinook-'));
+    const dbPath = path.join(fixtureDir, 'chinook.sqlite');
+    await new Promise<void>((resolve, reject) => {
+      const db = new sqlite3.Database(dbPath);
+      db.exec(CHINOOK_FIXTURE, (err) => db.close(() => (err ? reject(err) : resolve())));
+    });
+    process.env.CHINOOK_DB_PATH = dbPath;
+  });
+
+  after(() => {
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  });
+}